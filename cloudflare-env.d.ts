@@ -6,6 +6,7 @@ declare namespace Cloudflare {
 		NEXTJS_ENV: string;
 		ASSETS: Fetcher;
 		AUDIO_BUCKET: R2Bucket;
+		TRANSLATE_RUNNER: DurableObjectNamespace<import("./src/utils/translation/runner").TranslateJobRunner>;
 		ASR_APP_ID: string;
 		ASR_ACCESS_TOKEN: string;
 		ASR_BASE_URL: string;
@@ -18,9 +19,22 @@ declare namespace Cloudflare {
 		R2_S3_BUCKET?: string;
 		R2_S3_ACCESS_KEY_ID?: string;
 		R2_S3_SECRET_ACCESS_KEY?: string;
+		ACCESS_TOKEN_SECRET?: string;
+		ADMIN_SECRET?: string;
 		LLM_ENDPOINT: string;
 		LLM_API_KEY: string;
 		LLM_MODEL: string;
+		LLM_PROVIDER?: string;
+		OPENAI_BASE_URL?: string;
+		OPENAI_API_KEY?: string;
+		OPENAI_MODEL?: string;
+		ANTHROPIC_BASE_URL?: string;
+		ANTHROPIC_API_KEY?: string;
+		ANTHROPIC_MODEL?: string;
+		TRANSLATE_RATE_LIMIT_RPM?: string;
+		WHISPER_BASE_URL?: string;
+		WHISPER_API_KEY?: string;
+		WHISPER_MODEL?: string;
 	}
 }
 interface CloudflareEnv extends Cloudflare.Env {}
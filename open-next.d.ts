@@ -0,0 +1,6 @@
+// `.open-next/worker.js` 在 `opennextjs-cloudflare build` 时生成；构建前按 OpenNext 导出的形状声明，
+// worker.ts 里的 fetch / scheduled 与 Durable Object 导出因此始终参与类型检查
+declare module "*/.open-next/worker.js" {
+  const handler: { fetch: NonNullable<ExportedHandler<CloudflareEnv>["fetch"]> };
+  export default handler;
+}
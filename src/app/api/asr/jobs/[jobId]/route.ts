@@ -0,0 +1,59 @@
+import { NextResponse } from "next/server";
+import { getCloudflareContext } from "@opennextjs/cloudflare";
+import { DEFAULT_SEGMENT_OPTIONS, segmentWords, type SegmentOptions, serializeSrt } from "@/utils/subtitles";
+import { checkAccess } from "@/utils/access";
+import { ASR_PROVIDERS, AsrError, decodeAsrJobId } from "@/utils/asr";
+import { isUploadKey } from "@/utils/upload";
+
+/** 从查询参数读取切分配置（如 `?maxCharsPerLine=32&maxLines=1`），非法值忽略。 */
+function readSegmentOptions(params: URLSearchParams): Partial<SegmentOptions> {
+  const options: Partial<SegmentOptions> = {};
+  for (const key of Object.keys(DEFAULT_SEGMENT_OPTIONS) as Array<keyof SegmentOptions>) {
+    const value = Number(params.get(key));
+    if (params.has(key) && Number.isFinite(value) && value > 0) options[key] = value;
+  }
+  return options;
+}
+
+export async function GET(request: Request, context: { params: Promise<{ jobId: string }> }) {
+  const { jobId } = await context.params;
+  // 路由参数已由 Next.js 解码，再解码一次会在 id 含 % 时抛错
+  const decoded = jobId ? decodeAsrJobId(jobId) : null;
+  if (!decoded) {
+    return NextResponse.json({ error: "无效的 jobId" }, { status: 400 });
+  }
+
+  const { env } = getCloudflareContext();
+  const denied = await checkAccess(request, env, "asr", jobId);
+  if (denied) {
+    return NextResponse.json({ error: denied.error }, { status: denied.status });
+  }
+  const provider = ASR_PROVIDERS[decoded.provider];
+  if (!provider.configured(env)) {
+    return NextResponse.json({ error: `缺少 ${provider.label} 环境变量`, detail: `需要 ${provider.requiredEnv.join(" / ")}` }, { status: 500 });
+  }
+
+  const params = new URL(request.url).searchParams;
+  try {
+    const result = await provider.poll(env, decoded.vendorJobId);
+    if (result.status === "completed") {
+      // 识别完成后供应商不再需要音频，带上 ?audioKey=&audioToken= 时立即删除；失败时保留以便换供应商重试
+      const audioKey = params.get("audioKey");
+      if (isUploadKey(audioKey) && !(await checkAccess(request, env, "audio", audioKey, params.get("audioToken")))) {
+        await env.AUDIO_BUCKET.delete(audioKey);
+      }
+      // 有词级时间戳时统一按同一套规则切分，不依赖各家的分句
+      const cues = result.words && result.words.length > 0 ? segmentWords(result.words, readSegmentOptions(params)) : result.cues;
+      return NextResponse.json({ status: "completed", srt: serializeSrt(cues), cues });
+    }
+    if (result.status === "failed") {
+      return NextResponse.json({ status: "failed", message: result.message }, { status: 500 });
+    }
+    return NextResponse.json({ status: "processing" });
+  } catch (e) {
+    if (e instanceof AsrError) {
+      return NextResponse.json({ status: "error", message: e.message, detail: e.detail }, { status: e.status });
+    }
+    throw e;
+  }
+}
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getCloudflareContext } from "@opennextjs/cloudflare";
+import { checkAccess, readSession, signAccessToken } from "@/utils/access";
+import { ASR_PROVIDERS, AsrError, DEFAULT_ASR_PROVIDER, encodeAsrJobId, isAsrProviderId } from "@/utils/asr";
+import { isUploadKey } from "@/utils/upload";
+
+export async function POST(request: NextRequest) {
+  const { env } = getCloudflareContext();
+  const body = (await request.json()) as { key?: string; token?: string; language?: string; provider?: string };
+  const { key, language } = body;
+  if (!isUploadKey(key)) {
+    return NextResponse.json({ error: "缺少音频标识" }, { status: 400 });
+  }
+  const denied = await checkAccess(request, env, "audio", key, body.token ?? null);
+  if (denied) {
+    return NextResponse.json({ error: denied.error }, { status: denied.status });
+  }
+  if (body.provider !== undefined && !isAsrProviderId(body.provider)) {
+    return NextResponse.json({ error: "未知的 ASR 供应商", detail: body.provider }, { status: 400 });
+  }
+  const provider = ASR_PROVIDERS[body.provider ?? DEFAULT_ASR_PROVIDER];
+  if (!provider.configured(env)) {
+    return NextResponse.json({ error: `缺少 ${provider.label} 环境变量`, detail: `需要 ${provider.requiredEnv.join(" / ")}` }, { status: 500 });
+  }
+
+  // 只读元信息，不拉取正文
+  const object = await env.AUDIO_BUCKET.head(key);
+  if (!object) {
+    return NextResponse.json({ error: "音频对象不存在" }, { status: 404 });
+  }
+
+  try {
+    const vendorJobId = await provider.submit(env, { key, language, contentType: object.httpMetadata?.contentType });
+    const jobId = encodeAsrJobId(provider.id, vendorJobId);
+    // checkAccess 通过时会话一定存在
+    const token = await signAccessToken(env, "asr", jobId, readSession(request) ?? "");
+    return NextResponse.json({ jobId, provider: provider.id, token }, { status: 200 });
+  } catch (e) {
+    if (e instanceof AsrError) {
+      return NextResponse.json({ error: e.message, detail: e.detail }, { status: e.status });
+    }
+    throw e;
+  }
+}
@@ -0,0 +1,8 @@
+import { NextResponse } from "next/server";
+import { getCloudflareContext } from "@opennextjs/cloudflare";
+import { DEFAULT_ASR_PROVIDER, listAsrProviders } from "@/utils/asr";
+
+export async function GET() {
+  const { env } = getCloudflareContext();
+  return NextResponse.json({ providers: listAsrProviders(env), defaultProvider: DEFAULT_ASR_PROVIDER });
+}
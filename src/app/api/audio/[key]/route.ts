@@ -1,4 +1,7 @@
 import { NextResponse } from "next/server";
+import { checkAccess } from "@/utils/access";
+import { ifRangeMatches, isNotModified, parseRange } from "@/utils/http";
+import { isUploadKey } from "@/utils/upload";
 
 const envGetter = ({ request }: { request: Request }) => {
   const cfEnv = (request as unknown as { env?: CloudflareEnv }).env;
@@ -12,38 +15,74 @@ const envGetter = ({ request }: { request: Request }) => {
   return fallback;
 };
 
+/**
+ * 只允许读取上传生成的 `<uuid>.<ext>`，并且需要创建者会话的访问令牌。
+ * 支持单段 Range（206 / 416）与 If-None-Match / If-Modified-Since（304），便于播放器拖动进度。
+ */
 export async function GET(
   request: Request,
   context: { params: Promise<{ key: string }> }
 ) {
   const { key } = await context.params;
-  if (!key) {
+  // 拒绝 translate-jobs/ 等其他前缀
+  if (!isUploadKey(key)) {
     return NextResponse.json(
-      { error: "缺少音频标识" },
+      { error: "无效的音频标识" },
       { status: 400 }
     );
   }
 
   const env = envGetter({ request });
+  const denied = await checkAccess(request, env, "audio", key);
+  if (denied) {
+    return NextResponse.json(
+      { error: denied.error },
+      { status: denied.status }
+    );
+  }
 
   try {
-    const object = await env.AUDIO_BUCKET.get(key);
-
-    if (!object || !object.body) {
+    // 先读元信息，条件请求与 Range 都依赖大小和 ETag
+    const head = await env.AUDIO_BUCKET.head(key);
+    if (!head) {
       return new Response(null, { status: 404 });
     }
 
+    const validators = { etag: head.httpEtag, lastModified: head.uploaded };
     const headers = new Headers();
-    if (object.httpMetadata?.contentType) {
-      headers.set("content-type", object.httpMetadata.contentType);
-    } else {
-      headers.set("content-type", "application/octet-stream");
+    headers.set("accept-ranges", "bytes");
+    headers.set("etag", head.httpEtag);
+    headers.set("last-modified", head.uploaded.toUTCString());
+    // 需要访问令牌，只允许浏览器私有缓存；对象 key 不复用，内容不会变
+    headers.set("cache-control", "private, max-age=3600");
+    if (isNotModified(request.headers, validators)) {
+      return new Response(null, { status: 304, headers });
+    }
+
+    headers.set("content-type", head.httpMetadata?.contentType ?? "application/octet-stream");
+    const rangeRequest = ifRangeMatches(request.headers, validators)
+      ? parseRange(request.headers.get("range"), head.size)
+      : { type: "none" as const };
+    if (rangeRequest.type === "invalid") {
+      headers.set("content-range", `bytes */${head.size}`);
+      return new Response(null, { status: 416, headers });
     }
-    headers.set("content-length", object.size.toString());
-    if (object.httpEtag) {
-      headers.set("etag", object.httpEtag);
+
+    const range = rangeRequest.type === "range" ? rangeRequest.range : undefined;
+    const object = await env.AUDIO_BUCKET.get(key, range ? { range } : undefined);
+    if (!object) {
+      return new Response(null, { status: 404 });
     }
 
+    if (range) {
+      headers.set("content-range", `bytes ${range.offset}-${range.offset + range.length - 1}/${head.size}`);
+      headers.set("content-length", range.length.toString());
+      return new Response(object.body, {
+        status: 206,
+        headers,
+      });
+    }
+    headers.set("content-length", head.size.toString());
     return new Response(object.body, {
       status: 200,
       headers,
@@ -57,3 +96,28 @@ export async function GET(
   }
 }
 
+
+/** 面板重置时主动删除已上传的音频，不必等清理任务。 */
+export async function DELETE(
+  request: Request,
+  context: { params: Promise<{ key: string }> }
+) {
+  const { key } = await context.params;
+  if (!isUploadKey(key)) {
+    return NextResponse.json(
+      { error: "无效的音频标识" },
+      { status: 400 }
+    );
+  }
+
+  const env = envGetter({ request });
+  const denied = await checkAccess(request, env, "audio", key);
+  if (denied) {
+    return NextResponse.json(
+      { error: denied.error },
+      { status: denied.status }
+    );
+  }
+  await env.AUDIO_BUCKET.delete(key);
+  return NextResponse.json({ ok: true });
+}
@@ -1,7 +1,13 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getCloudflareContext } from "@opennextjs/cloudflare";
+import { isAdminRequest } from "@/utils/access";
 
+/** 列出绑定与变量名；仅开发环境或携带 ADMIN_SECRET 时可用，否则当作不存在。 */
 export async function GET(request: NextRequest) {
+  if (!(await isAdminRequest(request, getCloudflareContext().env))) {
+    return NextResponse.json({ error: "Not Found" }, { status: 404 });
+  }
+
   const report: { [key: string]: any } = {
     message: "This shows all environment keys (bindings, variables, and secrets) visible to the application.",
     contextFound: false,
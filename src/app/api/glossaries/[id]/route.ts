@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getCloudflareContext } from "@opennextjs/cloudflare";
+import { deleteGlossary, getGlossary, putGlossary, sanitizeTerms } from "@/utils/translation/glossaryStore";
+
+export async function GET(request: NextRequest, context: { params: Promise<{ id: string }> }) {
+  const { id } = await context.params;
+  const { env } = getCloudflareContext();
+  const glossary = await getGlossary(env.AUDIO_BUCKET, id);
+  if (!glossary) return NextResponse.json({ error: "术语表不存在" }, { status: 404 });
+  return NextResponse.json({ glossary });
+}
+
+export async function PUT(request: NextRequest, context: { params: Promise<{ id: string }> }) {
+  const { id } = await context.params;
+  const { env } = getCloudflareContext();
+  const existing = await getGlossary(env.AUDIO_BUCKET, id);
+  if (!existing) return NextResponse.json({ error: "术语表不存在" }, { status: 404 });
+
+  const body = (await request.json()) as { name?: string; terms?: unknown };
+  const terms = body.terms === undefined ? existing.terms : sanitizeTerms(body.terms);
+  if (terms.length === 0) {
+    return NextResponse.json({ error: "术语表为空" }, { status: 400 });
+  }
+  const glossary = { ...existing, name: body.name?.trim() || existing.name, terms, updatedAt: Date.now() };
+  await putGlossary(env.AUDIO_BUCKET, glossary);
+  return NextResponse.json({ glossary });
+}
+
+export async function DELETE(request: NextRequest, context: { params: Promise<{ id: string }> }) {
+  const { id } = await context.params;
+  const { env } = getCloudflareContext();
+  await deleteGlossary(env.AUDIO_BUCKET, id);
+  return NextResponse.json({ ok: true });
+}
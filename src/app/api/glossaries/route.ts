@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getCloudflareContext } from "@opennextjs/cloudflare";
+import { type Glossary } from "@/utils/translation/glossary";
+import { listGlossaries, putGlossary, sanitizeTerms } from "@/utils/translation/glossaryStore";
+
+export async function GET() {
+  const { env } = getCloudflareContext();
+  const glossaries = await listGlossaries(env.AUDIO_BUCKET);
+  return NextResponse.json({ glossaries });
+}
+
+export async function POST(request: NextRequest) {
+  const { env } = getCloudflareContext();
+  const body = (await request.json()) as { name?: string; terms?: unknown };
+  const name = body.name?.trim();
+  if (!name) {
+    return NextResponse.json({ error: "缺少术语表名称" }, { status: 400 });
+  }
+  const terms = sanitizeTerms(body.terms);
+  if (terms.length === 0) {
+    return NextResponse.json({ error: "术语表为空" }, { status: 400 });
+  }
+
+  const now = Date.now();
+  const glossary: Glossary = {
+    id: crypto.randomUUID(),
+    name,
+    terms,
+    createdAt: now,
+    updatedAt: now,
+  };
+  await putGlossary(env.AUDIO_BUCKET, glossary);
+  return NextResponse.json({ glossary }, { status: 200 });
+}
@@ -0,0 +1,18 @@
+import { NextResponse } from "next/server";
+import { getCloudflareContext } from "@opennextjs/cloudflare";
+import { checkAccess } from "@/utils/access";
+
+/** 把失败的条目重新排队；之后继续轮询 GET /api/translate/[jobId] 即可。 */
+export async function POST(request: Request, context: { params: Promise<{ jobId: string }> }) {
+  const { jobId } = await context.params;
+  const { env } = getCloudflareContext();
+  const denied = await checkAccess(request, env, "translate", jobId);
+  if (denied) {
+    return NextResponse.json({ error: denied.error }, { status: denied.status });
+  }
+  // 经由任务对应的 Durable Object 修改，避免与后台翻译同时写 R2
+  const runner = env.TRANSLATE_RUNNER.get(env.TRANSLATE_RUNNER.idFromName(jobId));
+  const result = await runner.retryFailed(jobId);
+  if (!result) return NextResponse.json({ error: "翻译任务不存在" }, { status: 404 });
+  return NextResponse.json({ jobId, requeued: result.requeued, status: result.completed ? "completed" : "processing" });
+}
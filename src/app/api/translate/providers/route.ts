@@ -0,0 +1,9 @@
+import { NextResponse } from "next/server";
+import { getCloudflareContext } from "@opennextjs/cloudflare";
+import { DEFAULT_PROVIDER, isProviderId, listProviders } from "@/utils/translation/providers";
+
+export async function GET() {
+  const { env } = getCloudflareContext();
+  const defaultProvider = isProviderId(env.LLM_PROVIDER) ? env.LLM_PROVIDER : DEFAULT_PROVIDER;
+  return NextResponse.json({ providers: listProviders(env), defaultProvider });
+}
@@ -1,65 +1,87 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getCloudflareContext } from "@opennextjs/cloudflare";
-
-type SrtEntry = { index: number; start: string; end: string; text: string };
-type TranslateJobEntry = { index: number; start: string; end: string; src: string; dst?: string };
-type TranslateJob = {
-  createdAt: number;
-  targetLanguage: string;
-  note?: string;
-  entries: TranslateJobEntry[];
-  cursor: number;
-  completed: boolean;
-  total: number;
-};
-
-function parseSrt(input: string): SrtEntry[] {
-  const blocks = input.replace(/\r\n/g, "\n").split(/\n\s*\n/);
-  const entries: SrtEntry[] = [];
-  for (const block of blocks) {
-    const lines = block.split("\n").filter((l) => l.trim().length > 0);
-    if (lines.length < 2) continue;
-    const maybeIndex = Number(lines[0].trim());
-    const timeLine = lines[1];
-    const m = timeLine.match(/^(\d{2}:\d{2}:\d{2},\d{3})\s*-->\s*(\d{2}:\d{2}:\d{2},\d{3})/);
-    if (!Number.isFinite(maybeIndex) || !m) continue;
-    const start = m[1];
-    const end = m[2];
-    const text = lines.slice(2).join("\n");
-    entries.push({ index: maybeIndex, start, end, text });
-  }
-  return entries;
-}
+import { checkAccessConfig, resolveSession, signAccessToken, withSession } from "@/utils/access";
+import { type Cue, detectSubtitleFormat, isSubtitleFormat, parseSubtitle, SubtitleParseError } from "@/utils/subtitles";
+import { type Glossary, mergeGlossaryTerms } from "@/utils/translation/glossary";
+import { getGlossary } from "@/utils/translation/glossaryStore";
+import { type TranslateJob, putTranslateJob } from "@/utils/translation/job";
+import { isProviderConfigured, missingProviderEnv, resolveProviderChain } from "@/utils/translation/providers";
 
 export async function POST(request: NextRequest) {
   const { env } = getCloudflareContext();
-  const body = (await request.json()) as { srt?: string; targetLanguage?: string; note?: string };
-  if (!body.srt) {
-    return NextResponse.json({ error: "缺少 SRT 内容" }, { status: 400 });
+  // 令牌在任务写入并启动后才签发，密钥缺失时必须提前拒绝，否则会留下无人能访问的任务
+  const misconfigured = checkAccessConfig(env);
+  if (misconfigured) {
+    return NextResponse.json({ error: misconfigured.error }, { status: misconfigured.status });
+  }
+  const body = (await request.json()) as {
+    srt?: string;
+    subtitle?: string;
+    format?: string;
+    targetLanguage?: string;
+    note?: string;
+    glossaryIds?: string[];
+    provider?: string;
+    failover?: boolean;
+  };
+  // `srt` 为旧字段；`subtitle` 可以是 SRT、WebVTT 或 ASS，未指定 format 时自动识别
+  const input = body.subtitle ?? body.srt;
+  if (!input) {
+    return NextResponse.json({ error: "缺少字幕内容" }, { status: 400 });
   }
+  if (body.format !== undefined && !isSubtitleFormat(body.format)) {
+    return NextResponse.json({ error: "不支持的字幕格式", detail: body.format }, { status: 400 });
+  }
+  const format = body.format ?? detectSubtitleFormat(input);
   const targetLanguage = body.targetLanguage ?? "zh-CN";
-  const entries = parseSrt(body.srt);
-  if (entries.length === 0) {
-    return NextResponse.json({ error: "SRT 解析失败或为空" }, { status: 400 });
+  let cues: Cue[];
+  try {
+    cues = parseSubtitle(input, format);
+  } catch (e) {
+    if (e instanceof SubtitleParseError) {
+      return NextResponse.json({ error: `${format.toUpperCase()} 解析失败`, detail: e.message, line: e.line }, { status: 400 });
+    }
+    throw e;
+  }
+  if (cues.length === 0) {
+    return NextResponse.json({ error: "字幕为空" }, { status: 400 });
+  }
+
+  const providers = resolveProviderChain(env, body.provider, body.failover === true);
+  if (!isProviderConfigured(env, providers[0])) {
+    return NextResponse.json({ error: "翻译供应商未配置", detail: missingProviderEnv(providers.slice(0, 1)) }, { status: 400 });
+  }
+
+  const glossaryIds = Array.isArray(body.glossaryIds) ? body.glossaryIds.filter((id) => typeof id === "string") : [];
+  const glossaries: Glossary[] = [];
+  for (const id of glossaryIds) {
+    const glossary = await getGlossary(env.AUDIO_BUCKET, id);
+    if (!glossary) {
+      return NextResponse.json({ error: "术语表不存在", detail: id }, { status: 400 });
+    }
+    glossaries.push(glossary);
   }
 
   const jobId = (globalThis as any).crypto?.randomUUID?.() ?? `${Date.now()}-${Math.random()}`;
-  const jobKey = `translate-jobs/${jobId}.json`;
   const job: TranslateJob = {
     createdAt: Date.now(),
     targetLanguage,
     note: body.note,
-    entries: entries.map((e) => ({ index: e.index, start: e.start, end: e.end, src: e.text })),
+    providers,
+    ...(glossaries.length > 0 ? { glossaryIds, glossary: mergeGlossaryTerms(glossaries) } : {}),
+    entries: cues.map((cue) => ({ cue, status: "pending", attempts: 0 })),
     cursor: 0,
     completed: false,
-    total: entries.length,
+    total: cues.length,
   };
 
-  await env.AUDIO_BUCKET.put(jobKey, JSON.stringify(job), {
-    httpMetadata: { contentType: "application/json" },
-  });
+  await putTranslateJob(env.AUDIO_BUCKET, jobId, job);
+  // 交给后台 Durable Object 推进，关闭页面也不影响翻译
+  await env.TRANSLATE_RUNNER.get(env.TRANSLATE_RUNNER.idFromName(jobId)).start(jobId);
 
-  return NextResponse.json({ jobId }, { status: 200 });
+  const session = resolveSession(request);
+  const token = await signAccessToken(env, "translate", jobId, session.id);
+  return withSession(NextResponse.json({ jobId, token }, { status: 200 }), session);
 }
 
 
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getCloudflareContext } from "@opennextjs/cloudflare";
+import { checkAccessConfig, OWNER_META, readSession, signAccessToken, verifyUploadOwner } from "@/utils/access";
+import { EXPECTED_SIZE_META, isAllowedUploadType, isUploadKey } from "@/utils/upload";
+
+/**
+ * 上传完成后校验对象：类型必须是音视频，大小必须与签发时声明的一致，否则删除。
+ * 只有创建上传的会话能确认，确认后签发该音频的访问令牌。
+ */
+export async function POST(request: NextRequest) {
+  const { env } = getCloudflareContext();
+  const misconfigured = checkAccessConfig(env);
+  if (misconfigured) {
+    return NextResponse.json({ error: misconfigured.error }, { status: misconfigured.status });
+  }
+  const body = (await request.json()) as { key?: string };
+  if (!isUploadKey(body.key)) {
+    return NextResponse.json({ error: "无效的对象标识" }, { status: 400 });
+  }
+  const object = await env.AUDIO_BUCKET.head(body.key);
+  if (!object) {
+    return NextResponse.json({ error: "对象不存在" }, { status: 404 });
+  }
+  const sessionId = readSession(request);
+  if (!sessionId || !(await verifyUploadOwner(env, body.key, sessionId, object.customMetadata?.[OWNER_META]))) {
+    return NextResponse.json({ error: "无权确认该上传" }, { status: 403 });
+  }
+
+  const contentType = object.httpMetadata?.contentType;
+  const expectedSize = Number(object.customMetadata?.[EXPECTED_SIZE_META]);
+  const problem = !isAllowedUploadType(contentType)
+    ? `不支持的文件类型: ${contentType ?? "未知"}`
+    : expectedSize > 0 && object.size !== expectedSize
+      ? `文件大小不符: 声明 ${expectedSize}，实际 ${object.size}`
+      : null;
+  if (problem) {
+    await env.AUDIO_BUCKET.delete(body.key);
+    return NextResponse.json({ error: "上传校验失败，已删除对象", detail: problem }, { status: 422 });
+  }
+  const token = await signAccessToken(env, "audio", body.key, sessionId);
+  return NextResponse.json({ key: body.key, size: object.size, contentType, token });
+}
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getCloudflareContext } from "@opennextjs/cloudflare";
+import { checkAccess } from "@/utils/access";
+import { isMissingUploadError, isUploadedPart, isUploadKey } from "@/utils/upload";
+
+export async function POST(request: NextRequest, context: { params: Promise<{ uploadId: string }> }) {
+  const { uploadId } = await context.params;
+  const { env } = getCloudflareContext();
+  const denied = await checkAccess(request, env, "upload", uploadId);
+  if (denied) {
+    return NextResponse.json({ error: denied.error }, { status: denied.status });
+  }
+  const body = (await request.json()) as { key?: string; parts?: unknown };
+  if (!isUploadKey(body.key)) {
+    return NextResponse.json({ error: "无效的对象标识" }, { status: 400 });
+  }
+  if (!Array.isArray(body.parts) || body.parts.length === 0 || !body.parts.every(isUploadedPart)) {
+    return NextResponse.json({ error: "分片列表不合法" }, { status: 400 });
+  }
+
+  const parts = [...body.parts].sort((a, b) => a.partNumber - b.partNumber);
+  try {
+    const object = await env.AUDIO_BUCKET.resumeMultipartUpload(body.key, uploadId).complete(parts);
+    return NextResponse.json({ key: object.key, size: object.size });
+  } catch (e) {
+    if (isMissingUploadError(e)) {
+      return NextResponse.json({ error: "上传会话已失效", detail: (e as Error).message }, { status: 404 });
+    }
+    throw e;
+  }
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getCloudflareContext } from "@opennextjs/cloudflare";
+import { checkAccess } from "@/utils/access";
+import { isMissingUploadError, isUploadKey, MAX_UPLOAD_PARTS, UPLOAD_PART_SIZE } from "@/utils/upload";
+
+export async function PUT(request: NextRequest, context: { params: Promise<{ uploadId: string; partNumber: string }> }) {
+  const { uploadId, partNumber: rawPartNumber } = await context.params;
+  const { env } = getCloudflareContext();
+  const denied = await checkAccess(request, env, "upload", uploadId);
+  if (denied) {
+    return NextResponse.json({ error: denied.error }, { status: denied.status });
+  }
+  const key = request.nextUrl.searchParams.get("key");
+  if (!isUploadKey(key)) {
+    return NextResponse.json({ error: "无效的对象标识" }, { status: 400 });
+  }
+  const partNumber = Number(rawPartNumber);
+  if (!Number.isInteger(partNumber) || partNumber < 1 || partNumber > MAX_UPLOAD_PARTS) {
+    return NextResponse.json({ error: "无效的分片序号", detail: rawPartNumber }, { status: 400 });
+  }
+
+  const data = await request.arrayBuffer();
+  if (data.byteLength === 0 || data.byteLength > UPLOAD_PART_SIZE) {
+    return NextResponse.json({ error: "分片大小不合法", detail: String(data.byteLength) }, { status: 400 });
+  }
+
+  try {
+    const part = await env.AUDIO_BUCKET.resumeMultipartUpload(key, uploadId).uploadPart(partNumber, data);
+    return NextResponse.json({ partNumber: part.partNumber, etag: part.etag });
+  } catch (e) {
+    if (isMissingUploadError(e)) {
+      return NextResponse.json({ error: "上传会话已失效", detail: (e as Error).message }, { status: 404 });
+    }
+    throw e;
+  }
+}
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getCloudflareContext } from "@opennextjs/cloudflare";
+import { checkAccess } from "@/utils/access";
+import { isR2S3Configured, isUploadKey, MAX_UPLOAD_PARTS, PRESIGN_EXPIRES_SEC, presignR2Url } from "@/utils/upload";
+
+/** 签发单个分片的直传 URL，分片由浏览器直接 PUT 到 R2，完成后仍调用 complete 合并。 */
+export async function POST(request: NextRequest, context: { params: Promise<{ uploadId: string }> }) {
+  const { uploadId } = await context.params;
+  const { env } = getCloudflareContext();
+  const denied = await checkAccess(request, env, "upload", uploadId);
+  if (denied) {
+    return NextResponse.json({ error: denied.error }, { status: denied.status });
+  }
+  if (!isR2S3Configured(env)) {
+    return NextResponse.json({ error: "未配置 R2 S3 凭证，无法直传" }, { status: 501 });
+  }
+  const body = (await request.json()) as { key?: string; partNumber?: number };
+  if (!isUploadKey(body.key)) {
+    return NextResponse.json({ error: "无效的对象标识" }, { status: 400 });
+  }
+  const partNumber = Number(body.partNumber);
+  if (!Number.isInteger(partNumber) || partNumber < 1 || partNumber > MAX_UPLOAD_PARTS) {
+    return NextResponse.json({ error: "无效的分片序号", detail: String(body.partNumber) }, { status: 400 });
+  }
+
+  const url = await presignR2Url(env, body.key, {
+    method: "PUT",
+    query: { partNumber: String(partNumber), uploadId },
+  });
+  return NextResponse.json({ url, expiresAt: Date.now() + PRESIGN_EXPIRES_SEC * 1000 });
+}
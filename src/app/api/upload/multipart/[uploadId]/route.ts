@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getCloudflareContext } from "@opennextjs/cloudflare";
+import { checkAccess } from "@/utils/access";
+import { isMissingUploadError, isUploadKey } from "@/utils/upload";
+
+export async function DELETE(request: NextRequest, context: { params: Promise<{ uploadId: string }> }) {
+  const { uploadId } = await context.params;
+  const { env } = getCloudflareContext();
+  const denied = await checkAccess(request, env, "upload", uploadId);
+  if (denied) {
+    return NextResponse.json({ error: denied.error }, { status: denied.status });
+  }
+  const key = request.nextUrl.searchParams.get("key");
+  if (!isUploadKey(key)) {
+    return NextResponse.json({ error: "无效的对象标识" }, { status: 400 });
+  }
+  try {
+    await env.AUDIO_BUCKET.resumeMultipartUpload(key, uploadId).abort();
+  } catch (e) {
+    // 已经不存在的上传视为取消成功
+    if (!isMissingUploadError(e)) throw e;
+  }
+  return NextResponse.json({ ok: true });
+}
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getCloudflareContext } from "@opennextjs/cloudflare";
+import { checkAccessConfig, OWNER_META, resolveSession, signAccessToken, signUploadOwner, withSession } from "@/utils/access";
+import { AUDIO_TTL_MS, expiryMetadata } from "@/utils/retention";
+import {
+  createUploadKey,
+  EXPECTED_SIZE_META,
+  isAllowedUploadType,
+  MAX_UPLOAD_PARTS,
+  MAX_UPLOAD_SIZE,
+  UPLOAD_PART_SIZE,
+} from "@/utils/upload";
+
+export async function POST(request: NextRequest) {
+  const { env } = getCloudflareContext();
+  const misconfigured = checkAccessConfig(env);
+  if (misconfigured) {
+    return NextResponse.json({ error: misconfigured.error }, { status: misconfigured.status });
+  }
+  const body = (await request.json()) as { fileName?: string; contentType?: string; size?: number };
+  if (!body.fileName) {
+    return NextResponse.json({ error: "缺少文件名" }, { status: 400 });
+  }
+  if (!isAllowedUploadType(body.contentType)) {
+    return NextResponse.json({ error: "不支持的文件类型", detail: body.contentType }, { status: 415 });
+  }
+  if (typeof body.size !== "number" || body.size <= 0) {
+    return NextResponse.json({ error: "文件为空" }, { status: 400 });
+  }
+  if (body.size > MAX_UPLOAD_SIZE || Math.ceil(body.size / UPLOAD_PART_SIZE) > MAX_UPLOAD_PARTS) {
+    return NextResponse.json({ error: "文件超出大小限制" }, { status: 413 });
+  }
+
+  const session = resolveSession(request);
+  const key = createUploadKey(body.fileName);
+  const upload = await env.AUDIO_BUCKET.createMultipartUpload(key, {
+    httpMetadata: { contentType: body.contentType },
+    // 与直传一致，确认阶段据此校验合并后的大小
+    customMetadata: {
+      [EXPECTED_SIZE_META]: String(body.size),
+      [OWNER_META]: await signUploadOwner(env, key, session.id),
+      ...expiryMetadata(AUDIO_TTL_MS),
+    },
+  });
+  // 后续分片、合并、取消都要带这个令牌，只知道 uploadId 不够
+  const token = await signAccessToken(env, "upload", upload.uploadId, session.id);
+  return withSession(NextResponse.json({ key, uploadId: upload.uploadId, partSize: UPLOAD_PART_SIZE, token }, { status: 200 }), session);
+}
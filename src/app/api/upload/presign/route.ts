@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getCloudflareContext } from "@opennextjs/cloudflare";
+import { checkAccessConfig, OWNER_HEADER, resolveSession, signUploadOwner, withSession } from "@/utils/access";
+import { AUDIO_TTL_MS, EXPIRES_AT_HEADER, expiresAt } from "@/utils/retention";
+import {
+  createUploadKey,
+  EXPECTED_SIZE_HEADER,
+  isAllowedUploadType,
+  isR2S3Configured,
+  MAX_UPLOAD_SIZE,
+  PRESIGN_EXPIRES_SEC,
+  presignR2Url,
+} from "@/utils/upload";
+
+/**
+ * 签发浏览器直传 R2 的 PUT URL；key 由服务端生成，内容类型与大小都签进 URL。
+ * 签名请求头会原样返回给页面，其中只有创建者标记，不含会话 id。
+ */
+export async function POST(request: NextRequest) {
+  const { env } = getCloudflareContext();
+  const misconfigured = checkAccessConfig(env);
+  if (misconfigured) {
+    return NextResponse.json({ error: misconfigured.error }, { status: misconfigured.status });
+  }
+  if (!isR2S3Configured(env)) {
+    return NextResponse.json({ error: "未配置 R2 S3 凭证，无法直传" }, { status: 501 });
+  }
+  const body = (await request.json()) as { fileName?: string; contentType?: string; size?: number };
+  if (!body.fileName) {
+    return NextResponse.json({ error: "缺少文件名" }, { status: 400 });
+  }
+  if (!isAllowedUploadType(body.contentType)) {
+    return NextResponse.json({ error: "不支持的文件类型", detail: body.contentType }, { status: 415 });
+  }
+  if (typeof body.size !== "number" || body.size <= 0) {
+    return NextResponse.json({ error: "文件为空" }, { status: 400 });
+  }
+  if (body.size > MAX_UPLOAD_SIZE) {
+    return NextResponse.json({ error: "文件超出大小限制" }, { status: 413 });
+  }
+
+  const session = resolveSession(request);
+  const key = createUploadKey(body.fileName);
+  const headers = {
+    "content-type": body.contentType,
+    [EXPECTED_SIZE_HEADER]: String(body.size),
+    [EXPIRES_AT_HEADER]: expiresAt(AUDIO_TTL_MS),
+    [OWNER_HEADER]: await signUploadOwner(env, key, session.id),
+  };
+  const url = await presignR2Url(env, key, { method: "PUT", headers });
+  return withSession(NextResponse.json({ key, url, headers, expiresAt: Date.now() + PRESIGN_EXPIRES_SEC * 1000 }), session);
+}
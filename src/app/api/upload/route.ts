@@ -1,11 +1,16 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getCloudflareContext } from "@opennextjs/cloudflare";
-
-const MAX_FILE_SIZE = 2 * 1024 * 1024 * 1024; // 2GB
+import { checkAccessConfig, OWNER_META, resolveSession, signAccessToken, signUploadOwner, withSession } from "@/utils/access";
+import { AUDIO_TTL_MS, expiryMetadata } from "@/utils/retention";
+import { createUploadKey, MAX_DIRECT_UPLOAD_SIZE } from "@/utils/upload";
 
 export async function POST(request: NextRequest) {
   try {
     const { env } = getCloudflareContext();
+    const misconfigured = checkAccessConfig(env);
+    if (misconfigured) {
+      return NextResponse.json({ error: misconfigured.error }, { status: misconfigured.status });
+    }
 
     if (!env.AUDIO_BUCKET) {
       // This check is almost redundant now but good for safety.
@@ -23,20 +28,22 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: "文件为空" }, { status: 400 });
     }
 
-    if (file.size > MAX_FILE_SIZE) {
-      return NextResponse.json({ error: "文件超出大小限制" }, { status: 413 });
+    if (file.size > MAX_DIRECT_UPLOAD_SIZE) {
+      return NextResponse.json({ error: "文件超出大小限制，请使用 /api/upload/multipart 分片上传" }, { status: 413 });
     }
 
-    const extension = file.name.split(".").pop() ?? "bin";
-    const objectKey = `${crypto.randomUUID()}.${extension}`;
+    const session = resolveSession(request);
+    const objectKey = createUploadKey(file.name);
 
     const bodyStream = file.stream();
 
     await env.AUDIO_BUCKET.put(objectKey, bodyStream, {
       httpMetadata: { contentType: file.type ?? "application/octet-stream" },
+      customMetadata: { [OWNER_META]: await signUploadOwner(env, objectKey, session.id), ...expiryMetadata(AUDIO_TTL_MS) },
     });
 
-    return NextResponse.json({ key: objectKey }, { status: 200 });
+    const token = await signAccessToken(env, "audio", objectKey, session.id);
+    return withSession(NextResponse.json({ key: objectKey, token }, { status: 200 }), session);
   } catch (e) {
     const error = e as Error;
     console.error("Error in /api/upload:", error);
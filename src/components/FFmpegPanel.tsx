@@ -1,11 +1,65 @@
 'use client'
 
 import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
-import { useMutation } from '@tanstack/react-query';
+import { useMutation, useQuery } from '@tanstack/react-query';
 import { format } from 'date-fns';
 import { nanoid } from 'nanoid';
 
+import GlossaryPanel from '@/components/GlossaryPanel';
+import LintPanel from '@/components/LintPanel';
+import SpeakerPanel from '@/components/SpeakerPanel';
+import SubtitleEditor from '@/components/SubtitleEditor';
+import { useCueHistory } from '@/hooks/useCueHistory';
 import { useFFmpegClient, type FFmpegInstance, type FFmpegResources } from '@/hooks/useFFmpegClient';
+import {
+  ASS_STYLE_PRESETS,
+  DEFAULT_ASS_STYLE,
+  DEFAULT_SEGMENT_OPTIONS,
+  applyLintFix,
+  autoFixCues,
+  detectSubtitleFormat,
+  formatTimestamp,
+  lintCues,
+  listSpeakers,
+  parseAss,
+  parseSubtitle,
+  renameSpeakers,
+  serializeSubtitle,
+  SUBTITLE_MIME_TYPES,
+  type AssOptions,
+  type AssPresetKey,
+  type AssStyle,
+  type Cue,
+  type LintWarning,
+  type OutputMode,
+  type SegmentOptions,
+  type SpeakerMarkup,
+  type SubtitleExportFormat,
+} from '@/utils/subtitles';
+import { type AsrProviderId, type AsrProviderInfo } from '@/utils/asr';
+import { computeWaveform, WAVEFORM_FFMPEG_ARGS, type Waveform } from '@/utils/audio';
+import {
+  mediaFileName,
+  pickSubtitleStream,
+  probeMedia,
+  toSubtitleStreams,
+  type MediaProbe,
+  type MediaStreamType,
+  type SubtitleStreamInfo,
+} from '@/utils/mediaProbe';
+import { type GlossaryViolation } from '@/utils/translation/glossary';
+import { uploadAudio, type UploadedAudio, type UploadProgress } from '@/utils/upload/client';
+import { type TranslateFailure } from '@/utils/translation/job';
+import { type ProviderId, type ProviderInfo } from '@/utils/translation/providers';
+import {
+  buildBurnInArgs,
+  buildSoftMuxArgs,
+  parseFfmpegProgress,
+  VIDEO_MIME_TYPES,
+  type SubtitleTrackInput,
+  type VideoContainer,
+  type VideoExportMode,
+} from '@/utils/videoExport';
 
 type StepKey =
   | 'init'
@@ -16,7 +70,8 @@ type StepKey =
   | 'upload'
   | 'asr'
   | 'translate'
-  | 'done';
+  | 'done'
+  | 'export';
 
 type StepState = {
   key: StepKey;
@@ -36,6 +91,7 @@ const steps: StepState[] = [
   { key: 'asr', label: '语音转写' },
   { key: 'translate', label: '字幕翻译' },
   { key: 'done', label: '完成' },
+  { key: 'export', label: '导出视频' },
 ];
 
 type StageLog = {
@@ -46,13 +102,6 @@ type StageLog = {
   timestamp: number;
 };
 
-type MetaInfo = {
-  duration?: number;
-  format?: string;
-  videoCodec?: string;
-  audioCodec?: string;
-};
-
 type SubtitleResult =
   | { hasEmbedded: true; srt: string }
   | { hasEmbedded: false; srt?: undefined };
@@ -130,20 +179,68 @@ const parseDuration = (duration?: number) => {
   return `${minutes} 分 ${seconds} 秒`;
 };
 
+const STREAM_TYPE_LABELS: Record<MediaStreamType, string> = {
+  video: '视频',
+  audio: '音频',
+  subtitle: '字幕',
+  data: '数据',
+  attachment: '附件',
+};
+
 const formatLogTime = (timestamp: number) => format(timestamp, 'HH:mm:ss');
 
+/** 可中止的等待，中止时以 signal.reason 拒绝。 */
+const wait = (ms: number, signal: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal.aborted) return reject(signal.reason);
+    const timer = setTimeout(resolve, ms);
+    signal.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    }, { once: true });
+  });
+
+// 翻译轮询间隔：从 1 秒起按 1.5 倍退避，最长 15 秒
+const TRANSLATE_POLL_MIN_MS = 1000;
+const TRANSLATE_POLL_MAX_MS = 15000;
+
+// 预览区按 360p 画面估算字号，ASS 使用 1080p 坐标系
+const ASS_FONT_SCALE = 3;
+
 export default function FFmpegPanel() {
   const videoInputRef = useRef<HTMLInputElement>(null);
+  const subtitleInputRef = useRef<HTMLInputElement>(null);
   const resourcesRef = useRef<FFmpegResources | null>(null);
+  const translatePollRef = useRef<AbortController | null>(null);
   const { load, reset: resetFfmpegClient, isLoaded } = useFFmpegClient();
   const { progress, start, finish, reset } = useSteps();
   const { logs, push, clear } = useLogger();
   const [videoFile, setVideoFile] = useState<File | null>(null);
   const [videoName, setVideoName] = useState('');
-  const [metaInfo, setMetaInfo] = useState<MetaInfo>({});
+  const [metaInfo, setMetaInfo] = useState<MediaProbe | null>(null);
+  const [waveform, setWaveform] = useState<Waveform | null>(null);
   const [extractedSrt, setExtractedSrt] = useState('');
-  const [translatedSrt, setTranslatedSrt] = useState('');
-  const [fontSize, setFontSize] = useState(16);
+  const [importedSubtitle, setImportedSubtitle] = useState<{ name: string; text: string } | null>(null);
+  const [subtitleStreams, setSubtitleStreams] = useState<SubtitleStreamInfo[]>([]);
+  // 手动选择的字幕轨（0:s:N），null 表示自动选择
+  const [subtitleTrack, setSubtitleTrack] = useState<number | null>(null);
+  const [translatedCues, setTranslatedCues] = useState<Cue[] | null>(null);
+  // 手动编辑与质量检查修复后的结果，优先于 ASR / 翻译结果展示与导出
+  const cueHistory = useCueHistory();
+  const [previewView, setPreviewView] = useState<'editor' | 'text'>('editor');
+  const [outputMode, setOutputMode] = useState<OutputMode>('translated');
+  const [speakerNames, setSpeakerNames] = useState<Record<string, string>>({});
+  const [speakerMarkup, setSpeakerMarkup] = useState<SpeakerMarkup>('dash');
+  const [glossaryIds, setGlossaryIds] = useState<string[]>([]);
+  const [glossaryViolations, setGlossaryViolations] = useState<GlossaryViolation[]>([]);
+  // 任务与音频都需要提交时签发的访问令牌才能查询、删除
+  const [translateJob, setTranslateJob] = useState<{ jobId: string; token: string } | null>(null);
+  // 已上传但尚未被 ASR 完成删除的音频
+  const [uploadedAudio, setUploadedAudio] = useState<UploadedAudio | null>(null);
+  const [translateFailures, setTranslateFailures] = useState<TranslateFailure[]>([]);
+  const [fontSize, setFontSize] = useState(DEFAULT_ASS_STYLE.fontSize / ASS_FONT_SCALE);
+  const [stylePreset, setStylePreset] = useState<AssPresetKey | ''>('');
+  const [subtitleStyle, setSubtitleStyle] = useState<AssStyle>(DEFAULT_ASS_STYLE);
   const [theme, setTheme] = useState<'dark' | 'light'>('dark');
   const isDark = theme === 'dark';
   const rootClasses = isDark ? 'min-h-screen bg-neutral-950 text-white' : 'min-h-screen bg-white text-neutral-900';
@@ -174,7 +271,18 @@ export default function FFmpegPanel() {
     []
   );
   const [asrLanguage, setAsrLanguage] = useState<string>('auto');
-  const [asrVendor, setAsrVendor] = useState<'volc' | 'soniox'>('volc');
+  const [asrProvider, setAsrProvider] = useState<AsrProviderId | ''>('');
+  const [segmentOptions, setSegmentOptions] = useState<SegmentOptions>(DEFAULT_SEGMENT_OPTIONS);
+  const asrProvidersQuery = useQuery<{ providers: AsrProviderInfo[]; defaultProvider: AsrProviderId }, Error>({
+    queryKey: ['asr-providers'],
+    queryFn: async () => {
+      const response = await fetch('/api/asr/providers');
+      if (!response.ok) {
+        throw new Error(await response.text());
+      }
+      return (await response.json()) as { providers: AsrProviderInfo[]; defaultProvider: AsrProviderId };
+    },
+  });
   const TRANSLATE_LANGUAGE_OPTIONS = useMemo(
     () => [
       { label: '中文 zh-CN', value: 'zh-CN' },
@@ -193,28 +301,34 @@ export default function FFmpegPanel() {
     []
   );
   const [targetLanguage, setTargetLanguage] = useState<string>('zh-CN');
-  const [asrProgress, setAsrProgress] = useState<{ current: number; total: number; etaSec?: number } | null>(null);
-  const [translateProgress, setTranslateProgress] = useState<{ current: number; total: number; etaSec?: number } | null>(null);
-
-  const uploadMutation = useMutation<{ key: string }, Error, FormData>({
-    mutationFn: async (form) => {
-      const response = await fetch('/api/upload', {
-        method: 'POST',
-        body: form,
-      });
-
+  const [translateProvider, setTranslateProvider] = useState<ProviderId | ''>('');
+  const [providerFailover, setProviderFailover] = useState(true);
+  const providersQuery = useQuery<{ providers: ProviderInfo[]; defaultProvider: ProviderId }, Error>({
+    queryKey: ['translate-providers'],
+    queryFn: async () => {
+      const response = await fetch('/api/translate/providers');
       if (!response.ok) {
         throw new Error(await response.text());
       }
-
-      return (await response.json()) as { key: string };
+      return (await response.json()) as { providers: ProviderInfo[]; defaultProvider: ProviderId };
     },
   });
+  const [translateProgress, setTranslateProgress] = useState<{ current: number; total: number; etaSec?: number } | null>(null);
+
+  const [uploadProgress, setUploadProgress] = useState<UploadProgress | null>(null);
+  const uploadMutation = useMutation<UploadedAudio, Error, { blob: Blob; name: string }>({
+    // 优先用预签名 URL 直传 R2，大文件分片上传、刷新页面后可续传
+    mutationFn: ({ blob, name }) =>
+      uploadAudio(blob, name, {
+        onProgress: setUploadProgress,
+        onLog: (message) => logStage('upload', message, 'warn'),
+      }),
+    onSettled: () => setUploadProgress(null),
+  });
 
-  const asrSubmitMutation = useMutation<{ jobId: string }, Error, { key: string; language?: string; vendor?: 'volc' | 'soniox' }>({
+  const asrSubmitMutation = useMutation<{ jobId: string; token: string }, Error, { key: string; token: string; language?: string; provider?: AsrProviderId }>({
     mutationFn: async (input) => {
-      const path = input.vendor === 'soniox' ? '/api/asr/soniox/submit' : '/api/asr/submit';
-      const response = await fetch(path, {
+      const response = await fetch('/api/asr/jobs', {
         method: 'POST',
         headers: { 'content-type': 'application/json' },
         body: JSON.stringify(input),
@@ -222,7 +336,7 @@ export default function FFmpegPanel() {
       if (!response.ok) {
         throw new Error(await response.text());
       }
-      return (await response.json()) as { jobId: string };
+      return (await response.json()) as { jobId: string; token: string };
     },
   });
 
@@ -251,15 +365,135 @@ export default function FFmpegPanel() {
     [push]
   );
 
+  // 任务由 TranslateJobRunner 在服务端推进，可能持续很久：一直轮询到终态，用户可随时取消
+  const pollTranslateJob = useCallback(
+    async (jobId: string, token: string) => {
+      translatePollRef.current?.abort(new Error('翻译轮询已被新的任务取代'));
+      const controller = new AbortController();
+      translatePollRef.current = controller;
+      const { signal } = controller;
+      // ETA 按首次看到的进度以来的实际速度估算
+      let baseline: { processed: number; at: number } | null = null;
+      let delay = TRANSLATE_POLL_MIN_MS;
+      try {
+        for (let i = 1; ; i++) {
+          await wait(delay, signal);
+          delay = Math.min(TRANSLATE_POLL_MAX_MS, Math.round(delay * 1.5));
+          const q = await fetch(`/api/translate/${encodeURIComponent(jobId)}`, { headers: { 'x-access-token': token }, signal }).catch(
+            (error: unknown) => {
+              if (signal.aborted) throw error;
+              return null;
+            }
+          );
+          if (!q) {
+            logStage('translate', `查询失败(第 ${i} 次)：网络错误`, 'warn');
+            continue;
+          }
+          // 任务出错时接口返回 500 并带 JSON 说明，其余非 2xx 视为暂时性失败
+          const data = (await q.json().catch(() => null)) as {
+            status?: 'processing' | 'completed' | 'not_found' | 'error';
+            message?: string;
+            error?: string;
+            srt?: string;
+            cues?: Cue[];
+            glossaryViolations?: GlossaryViolation[];
+            failures?: TranslateFailure[];
+            cursor?: number;
+            processed?: number;
+            total?: number;
+          } | null;
+          if (q.status === 401 || q.status === 403) {
+            throw new Error(`无权查询翻译任务: ${data?.error ?? q.status}`);
+          }
+          if (!data) {
+            logStage('translate', `查询失败(第 ${i} 次): ${q.status}`, 'warn');
+            continue;
+          }
+          if (data.status === 'processing') {
+            if (typeof data.processed === 'number' && typeof data.total === 'number') {
+              const now = Date.now();
+              const current = data.processed;
+              const total = Math.max(data.total, 1);
+              if (!baseline || current < baseline.processed) baseline = { processed: current, at: now };
+              const rate = (current - baseline.processed) / Math.max(1, (now - baseline.at) / 1000);
+              const etaSec = rate > 0 ? Math.round(Math.max(total - current, 0) / rate) : undefined;
+              setTranslateProgress({ current, total, etaSec });
+            }
+            logStage('translate', `处理中(第 ${i} 次查询)…`);
+            continue;
+          }
+          if (data.status === 'completed' && data.cues) {
+            setTranslateProgress(null);
+            setGlossaryViolations(data.glossaryViolations ?? []);
+            if (data.glossaryViolations?.length) {
+              logStage('translate', `术语检查：${data.glossaryViolations.length} 处未按术语表翻译`, 'warn');
+            }
+            setTranslateFailures(data.failures ?? []);
+            if (data.failures?.length) {
+              logStage('translate', `${data.failures.length} 条字幕翻译失败，可稍后重试`, 'warn');
+            }
+            return data.cues;
+          }
+          if (data.status === 'not_found' || data.status === 'error') {
+            throw new Error(data.message ? `翻译任务失败: ${data.message}` : '翻译任务失败或不存在');
+          }
+        }
+      } finally {
+        if (translatePollRef.current === controller) translatePollRef.current = null;
+      }
+    },
+    [logStage]
+  );
+
+  const cancelTranslate = useCallback(() => {
+    translatePollRef.current?.abort(new Error('翻译已取消'));
+    if (translateJob) {
+      // 经 TranslateJobRunner 停止任务并删除结果
+      fetch(`/api/translate/${encodeURIComponent(translateJob.jobId)}`, { method: 'DELETE', headers: { 'x-access-token': translateJob.token } }).catch(() => {});
+    }
+    setTranslateJob(null);
+    setTranslateProgress(null);
+    logStage('translate', '已取消翻译任务', 'warn');
+  }, [translateJob, logStage]);
+
+  const retryFailedMutation = useMutation<Cue[], Error, { jobId: string; token: string }>({
+    mutationFn: async ({ jobId, token }) => {
+      const response = await fetch(`/api/translate/${encodeURIComponent(jobId)}/retry`, { method: 'POST', headers: { 'x-access-token': token } });
+      if (!response.ok) {
+        throw new Error(await response.text());
+      }
+      const { requeued } = (await response.json()) as { requeued: number };
+      logStage('translate', `已重新提交 ${requeued} 条失败字幕`);
+      return pollTranslateJob(jobId, token);
+    },
+    onSuccess: (cues) => setTranslatedCues(cues),
+  });
+
   const resetAll = useCallback(() => {
+    translatePollRef.current?.abort(new Error('已重置'));
+    // 服务端到期也会清理，这里尽早删除，失败无需提示
+    if (uploadedAudio) {
+      fetch(`/api/audio/${encodeURIComponent(uploadedAudio.key)}`, { method: 'DELETE', headers: { 'x-access-token': uploadedAudio.token } }).catch(() => {});
+    }
+    if (translateJob) {
+      fetch(`/api/translate/${encodeURIComponent(translateJob.jobId)}`, { method: 'DELETE', headers: { 'x-access-token': translateJob.token } }).catch(() => {});
+    }
     reset();
     clear();
-    setMetaInfo({});
+    setMetaInfo(null);
+    setWaveform(null);
     setVideoFile(null);
     setVideoName('');
     setExtractedSrt('');
-    setTranslatedSrt('');
-  }, [reset, clear]);
+    setSubtitleStreams([]);
+    setSubtitleTrack(null);
+    setTranslatedCues(null);
+    setSpeakerNames({});
+    setGlossaryViolations([]);
+    setTranslateJob(null);
+    setUploadedAudio(null);
+    setTranslateFailures([]);
+  }, [reset, clear, uploadedAudio, translateJob]);
 
   const handleVideoSelect = useCallback(
     (fileList: FileList | null) => {
@@ -273,6 +507,27 @@ export default function FFmpegPanel() {
     [resetAll, logStage]
   );
 
+  const handleSubtitleImport = useCallback(
+    async (fileList: FileList | null) => {
+      const file = fileList?.[0];
+      if (!file) {
+        setImportedSubtitle(null);
+        return;
+      }
+      const text = await file.text();
+      try {
+        const cues = parseSubtitle(text);
+        setImportedSubtitle({ name: file.name, text });
+        logStage('subtitle', `已导入字幕: ${file.name}（${cues.length} 条）`);
+      } catch (error) {
+        setImportedSubtitle(null);
+        if (subtitleInputRef.current) subtitleInputRef.current.value = '';
+        logStage('subtitle', `导入字幕失败: ${(error as Error).message}`, 'error');
+      }
+    },
+    [logStage]
+  );
+
   const ensureFfmpeg = useCallback(async () => {
     const cached = resourcesRef.current;
     if (cached && cached.ffmpeg.loaded) {
@@ -323,52 +578,43 @@ export default function FFmpegPanel() {
       allowNonZero: true,
       onLog: (message) => logStage('metadata', message),
     });
-
-    const durationMatch = output.match(/Duration: (\d{2}:\d{2}:\d{2}\.\d{2})/);
-    const formatMatch = output.match(/Input #0, (.+?),/);
-    const videoCodecMatch = output.match(/Video: ([^,]+)/);
-    const audioCodecMatch = output.match(/Audio: ([^,]+)/);
-
-    return {
-      duration: durationMatch
-        ? durationMatch[1].split(':').reduce((acc, value, index) => {
-            const time = parseFloat(value);
-            return acc + time * Math.pow(60, 2 - index);
-          }, 0)
-        : undefined,
-      format: formatMatch ? formatMatch[1] : undefined,
-      videoCodec: videoCodecMatch ? videoCodecMatch[1] : undefined,
-      audioCodec: audioCodecMatch ? audioCodecMatch[1] : undefined,
-    } satisfies MetaInfo;
+    return probeMedia(output);
   }, []);
 
-  const extractSubtitles = useCallback(async (ffmpeg: FFmpegInstance, filename: string) => {
-    const { output: detectLogs } = await runAndCollectLogs(ffmpeg, ['-i', filename], {
-      allowNonZero: true,
-      onLog: (message) => logStage('subtitle', message),
-    }).catch(() => ({ output: '' }));
+  const extractSubtitles = useCallback(async (ffmpeg: FFmpegInstance, filename: string, streams: SubtitleStreamInfo[], track: number | null) => {
+    if (streams.length === 0) {
+      return { hasEmbedded: false } satisfies SubtitleResult;
+    }
 
-    const hasSubtitle = /Stream #0:\d+(?:\((.*?)\))?: Subtitle/.test(detectLogs);
-    if (!hasSubtitle) {
+    const stream = track === null ? pickSubtitleStream(streams) : streams[track];
+    if (!stream || stream.bitmap) {
+      logStage('subtitle', `字幕轨 ${stream ? `#${stream.index}（${stream.codec}）` : ''}是图形字幕，无法转成文本，改用 ASR。`, 'warn');
       return { hasEmbedded: false } satisfies SubtitleResult;
     }
 
-    const outputName = 'embedded_subs.srt';
-    const { exitCode } = await runAndCollectLogs(ffmpeg, ['-i', filename, '-map', '0:s:0', outputName], {
-      allowNonZero: false,
-      onLog: (message) => logStage('subtitle', message),
-    });
+    // ASS 原样复制，保留样式表；其它文本字幕统一转成 SRT
+    const isAss = stream.codec === 'ass' || stream.codec === 'ssa';
+    const outputName = isAss ? 'embedded_subs.ass' : 'embedded_subs.srt';
+    const { exitCode } = await runAndCollectLogs(
+      ffmpeg,
+      ['-y', '-i', filename, '-map', `0:s:${stream.index}`, ...(isAss ? ['-c:s', 'copy'] : []), outputName],
+      {
+        allowNonZero: false,
+        onLog: (message) => logStage('subtitle', message),
+      }
+    );
 
     if (exitCode !== 0) {
       throw new Error('提取内嵌字幕失败');
     }
 
+    logStage('subtitle', `使用字幕轨 #${stream.index}：${[stream.language, stream.title, stream.codec].filter(Boolean).join(' / ')}`);
     const data = (await ffmpeg.readFile(outputName)) as Uint8Array;
     return {
       hasEmbedded: true,
       srt: new TextDecoder().decode(data),
     } satisfies SubtitleResult;
-  }, []);
+  }, [logStage]);
 
   const extractAudio = useCallback(async (ffmpeg: FFmpegInstance, filename: string) => {
     const outputName = 'output_audio.m4a';
@@ -384,6 +630,38 @@ export default function FFmpegPanel() {
     return new Blob([audioData.buffer], { type: 'audio/mp4' });
   }, []);
 
+  // 流程跑过之后视频已在虚拟文件系统中，切换轨道时直接重新提取预览
+  const selectSubtitleTrack = useCallback(
+    async (track: number) => {
+      setSubtitleTrack(track);
+      const resources = resourcesRef.current;
+      const video = videoFile;
+      if (!resources?.ffmpeg.loaded || !video || importedSubtitle) return;
+      const existing = await resources.ffmpeg.listDir('/').catch(() => []);
+      if (!existing.some((node) => node.name === video.name)) return;
+      const result = await extractSubtitles(resources.ffmpeg, video.name, subtitleStreams, track).catch((error) => {
+        logStage('subtitle', `提取字幕失败: ${(error as Error).message}`, 'error');
+        return null;
+      });
+      if (result?.hasEmbedded) {
+        setExtractedSrt(result.srt);
+        setTranslatedCues(null);
+        logStage('subtitle', '已切换字幕轨，重新运行流程即可翻译该轨道。');
+      }
+    },
+    [videoFile, importedSubtitle, subtitleStreams, extractSubtitles, logStage]
+  );
+
+  // 解码成低采样率 PCM 计算波形，日志量大，不写入阶段日志
+  const extractWaveform = useCallback(async (ffmpeg: FFmpegInstance, filename: string) => {
+    const outputName = 'waveform.pcm';
+    await runAndCollectLogs(ffmpeg, ['-i', filename, ...WAVEFORM_FFMPEG_ARGS, outputName]);
+    const data = (await ffmpeg.readFile(outputName)) as Uint8Array;
+    await ffmpeg.deleteFile(outputName).catch(() => undefined);
+    const bytes = data.slice(0, data.byteLength - (data.byteLength % 2));
+    return computeWaveform(new Int16Array(bytes.buffer));
+  }, []);
+
   const runPipeline = useCallback(async () => {
     const resources = await ensureFfmpeg().catch((error) => {
       const message = error instanceof Error ? `${error.name}: ${error.message}` : String(error);
@@ -416,19 +694,34 @@ export default function FFmpegPanel() {
     start('metadata');
     await ffmpeg.writeFile(video.name, await fetchFile(video));
     const meta = await parseMetadata(ffmpeg, video.name);
+    const streams = toSubtitleStreams(meta);
     setMetaInfo(meta);
+    setSubtitleStreams(streams);
+    // 波形只用于时间轴编辑，失败不影响后续流程
+    const waveformResult = await extractWaveform(ffmpeg, video.name).catch((error) => {
+      logStage('metadata', `生成波形失败: ${(error as Error).message}`, 'warn');
+      return null;
+    });
+    setWaveform(waveformResult);
     finish('metadata', {
-      duration: meta.duration ? parseDuration(meta.duration) : '',
-      format: meta.format ?? '',
+      duration: meta.durationSec ? parseDuration(meta.durationSec) : '',
+      format: meta.container ?? '',
+      streams: meta.streams.length,
     });
 
     start('subtitle');
-    const subtitleResult = await extractSubtitles(ffmpeg, video.name).catch((error) => {
-      logStage('subtitle', `提取字幕失败: ${(error as Error).message}`, 'error');
-      return { hasEmbedded: false } satisfies SubtitleResult;
-    });
-
-    if (subtitleResult.hasEmbedded) {
+    const subtitleResult: SubtitleResult = importedSubtitle
+      ? { hasEmbedded: true, srt: importedSubtitle.text }
+      : await extractSubtitles(ffmpeg, video.name, streams, subtitleTrack).catch((error) => {
+          logStage('subtitle', `提取字幕失败: ${(error as Error).message}`, 'error');
+          return { hasEmbedded: false } satisfies SubtitleResult;
+        });
+
+    if (importedSubtitle) {
+      setExtractedSrt(importedSubtitle.text);
+      logStage('subtitle', `使用导入的字幕: ${importedSubtitle.name}，跳过内嵌字幕与 ASR。`);
+      finish('subtitle', { found: 'imported' });
+    } else if (subtitleResult.hasEmbedded) {
       setExtractedSrt(subtitleResult.srt);
       logStage('subtitle', '检测到内嵌字幕，已提取。');
       finish('subtitle', { found: 'yes' });
@@ -448,35 +741,35 @@ export default function FFmpegPanel() {
       });
 
       start('upload');
-      const form = new FormData();
-      form.append('file', audioBlob, `${videoName}.m4a`);
-      const uploadResult = await uploadMutation.mutateAsync(form);
+      const uploadResult = await uploadMutation.mutateAsync({ blob: audioBlob, name: `${videoName}.m4a` });
+      setUploadedAudio(uploadResult);
       finish('upload', { key: uploadResult.key });
 
       start('asr');
       const selectedLanguageCode = asrLanguage === 'auto' ? undefined : asrLanguage;
-      const vendor = asrVendor;
-      const { jobId } = await asrSubmitMutation.mutateAsync({ key: uploadResult.key, language: selectedLanguageCode, vendor });
+      const { jobId, token: asrToken } = await asrSubmitMutation.mutateAsync({
+        key: uploadResult.key,
+        token: uploadResult.token,
+        language: selectedLanguageCode,
+        provider: asrProvider || undefined,
+      });
       logStage('asr', `任务已提交，jobId: ${jobId}`);
       let srtFromAsr = '';
       const maxAttempts = 30;
       for (let i = 1; i <= maxAttempts; i++) {
         await new Promise((r) => setTimeout(r, Math.min(10000, 1000 * i)));
-        const queryPath = vendor === 'soniox' ? `/api/asr/soniox/${encodeURIComponent(jobId)}` : `/api/asr/${encodeURIComponent(jobId)}`;
-        const res = await fetch(queryPath);
+        // 切分参数只在任务完成时生效，每次查询都带上
+        const segmentQuery = new URLSearchParams(Object.entries(segmentOptions).map(([k, v]) => [k, String(v)]));
+        // 任务完成时服务端顺带删除音频
+        segmentQuery.set('audioKey', uploadResult.key);
+        segmentQuery.set('audioToken', uploadResult.token);
+        const res = await fetch(`/api/asr/jobs/${encodeURIComponent(jobId)}?${segmentQuery}`, { headers: { 'x-access-token': asrToken } });
         if (!res.ok) {
           logStage('asr', `查询失败(${i}/${maxAttempts}): ${res.status}`, 'warn');
           continue;
         }
-        const data = (await res.json()) as { status: 'processing' | 'completed' | 'failed'; srt?: string; message?: string; cursor?: number; total?: number };
-        if (data.status === 'processing' && typeof data.cursor === 'number' && typeof data.total === 'number') {
-          const current = data.cursor;
-          const total = Math.max(data.total, 1);
-          // 简易 ETA：假设剩余批次数按等比延长
-          const remainBatches = Math.max(total - current, 0);
-          const etaSec = Math.min(600, Math.round((1000 * i) / 1000 * remainBatches));
-          setAsrProgress({ current, total, etaSec });
-        }
+        // 各家 ASR 都不返回进度，处理中只能等待
+        const data = (await res.json()) as { status: 'processing' | 'completed' | 'failed'; srt?: string; cues?: Cue[]; message?: string };
         if (data.status === 'processing') {
           logStage('asr', `处理中(${i}/${maxAttempts})…`);
           continue;
@@ -485,8 +778,9 @@ export default function FFmpegPanel() {
           throw new Error(data.message || 'ASR 任务失败');
         }
         if (data.status === 'completed' && data.srt) {
-          setAsrProgress(null);
-          srtFromAsr = data.srt;
+          setUploadedAudio(null);
+          // 有说话人时转成带 <v> 标记的 VTT，后续解析与翻译都能保留说话人
+          srtFromAsr = data.cues && listSpeakers(data.cues).length > 0 ? serializeSubtitle(data.cues, 'vtt', { speakers: 'label' }) : data.srt;
           break;
         }
       }
@@ -507,56 +801,43 @@ export default function FFmpegPanel() {
     const submitResp = await fetch('/api/translate/submit', {
       method: 'POST',
       headers: { 'content-type': 'application/json' },
-      body: JSON.stringify({ srt: currentSrt, targetLanguage, note: translationNote.trim() || undefined }),
+      body: JSON.stringify({
+        subtitle: currentSrt,
+        targetLanguage,
+        note: translationNote.trim() || undefined,
+        glossaryIds: glossaryIds.length > 0 ? glossaryIds : undefined,
+        provider: translateProvider || undefined,
+        failover: providerFailover,
+      }),
     });
     if (!submitResp.ok) throw new Error(await submitResp.text());
-    const { jobId: translateJobId } = (await submitResp.json()) as { jobId: string };
-    logStage('translate', `翻译任务已提交，jobId: ${translateJobId}`);
+    const submitted = (await submitResp.json()) as { jobId: string; token: string };
+    setTranslateJob(submitted);
+    logStage('translate', `翻译任务已提交，jobId: ${submitted.jobId}`);
     // 轮询翻译
-    let translated = '';
-    const maxTranslateAttempts = 60;
-    for (let i = 1; i <= maxTranslateAttempts; i++) {
-      await new Promise((r) => setTimeout(r, Math.min(8000, 1000 + i * 300)));
-      const q = await fetch(`/api/translate/${encodeURIComponent(translateJobId)}`);
-      if (!q.ok) {
-        logStage('translate', `查询失败(${i}/${maxTranslateAttempts}): ${q.status}`, 'warn');
-        continue;
-      }
-      const data = (await q.json()) as { status: 'processing' | 'completed' | 'not_found' | 'error'; srt?: string; cursor?: number; processed?: number; total?: number };
-      if (data.status === 'processing') {
-        if (typeof data.processed === 'number' && typeof data.total === 'number') {
-          const current = data.processed;
-          const total = Math.max(data.total, 1);
-          const remain = Math.max(total - current, 0);
-          const etaSec = Math.min(900, Math.round((1000 + i * 300) / 1000 * Math.ceil(remain / 30)));
-          setTranslateProgress({ current, total, etaSec });
-        }
-        logStage('translate', `处理中(${i}/${maxTranslateAttempts})…`);
-        continue;
-      }
-      if (data.status === 'completed' && data.srt) {
-        setTranslateProgress(null);
-        translated = data.srt;
-        break;
-      }
-      if (data.status === 'not_found' || data.status === 'error') {
-        throw new Error('翻译任务失败或不存在');
-      }
-    }
-    if (!translated) throw new Error('翻译轮询超时');
-    setTranslatedSrt(translated);
+    const translated = await pollTranslateJob(submitted.jobId, submitted.token);
+    setTranslatedCues(translated);
     finish('translate');
 
     finish('done');
   }, [
     videoFile,
     videoName,
+    importedSubtitle,
+    subtitleTrack,
+    asrProvider,
+    segmentOptions,
+    glossaryIds,
+    translateProvider,
+    providerFailover,
     clear,
     reset,
     start,
     finish,
     logStage,
+    pollTranslateJob,
     parseMetadata,
+    extractWaveform,
     extractSubtitles,
     extractAudio,
     uploadMutation,
@@ -565,7 +846,228 @@ export default function FFmpegPanel() {
     ensureFfmpeg,
   ]);
 
-  const previewSrt = useMemo(() => translatedSrt || extractedSrt, [translatedSrt, extractedSrt]);
+  const { reset: resetCueHistory } = cueHistory;
+  useEffect(() => {
+    resetCueHistory();
+  }, [translatedCues, extractedSrt, resetCueHistory]);
+
+  const editedCues = cueHistory.cues;
+  const parsedCues = useMemo<Cue[] | null>(() => {
+    if (editedCues) return editedCues;
+    if (translatedCues) return translatedCues;
+    if (!extractedSrt) return null;
+    try {
+      return parseSubtitle(extractedSrt);
+    } catch {
+      return null;
+    }
+  }, [editedCues, translatedCues, extractedSrt]);
+
+  const speakers = useMemo(() => (parsedCues ? listSpeakers(parsedCues) : []), [parsedCues]);
+
+  const subtitleCues = useMemo(
+    () => (parsedCues ? renameSpeakers(parsedCues, speakerNames) : null),
+    [parsedCues, speakerNames]
+  );
+
+  // 行宽、行数与断句配置保持一致，ASR 原文和译文都检查
+  const lintOptions = useMemo(
+    () => ({ maxCharsPerLine: segmentOptions.maxCharsPerLine, maxLines: segmentOptions.maxLines, minGapMs: segmentOptions.minGapMs }),
+    [segmentOptions]
+  );
+
+  const lintWarnings = useMemo(() => (parsedCues ? lintCues(parsedCues, lintOptions) : []), [parsedCues, lintOptions]);
+
+  const { commit: commitCues } = cueHistory;
+  const editCues = useCallback(
+    (next: Cue[], coalesceKey?: string) => {
+      if (parsedCues) commitCues(parsedCues, next, coalesceKey);
+    },
+    [parsedCues, commitCues]
+  );
+
+  const fixLintWarning = useCallback(
+    (warning: LintWarning) => {
+      if (parsedCues) editCues(applyLintFix(parsedCues, warning, lintOptions));
+    },
+    [parsedCues, editCues, lintOptions]
+  );
+
+  const fixAllLintWarnings = useCallback(() => {
+    if (parsedCues) editCues(autoFixCues(parsedCues, lintOptions));
+  }, [parsedCues, editCues, lintOptions]);
+
+  // 预览里始终带上说话人名字，方便核对改名效果
+  const previewSrt = useMemo(
+    () => (subtitleCues ? serializeSubtitle(subtitleCues, 'srt', { mode: outputMode, speakers: 'label' }) : extractedSrt),
+    [subtitleCues, outputMode, extractedSrt]
+  );
+
+  const applyStylePreset = useCallback((key: AssPresetKey | '') => {
+    setStylePreset(key);
+    const style = key ? ASS_STYLE_PRESETS[key].styles[0] : DEFAULT_ASS_STYLE;
+    setSubtitleStyle(style);
+    setFontSize(Math.round(style.fontSize / ASS_FONT_SCALE));
+  }, []);
+
+  const updateSubtitleStyle = useCallback((patch: Partial<AssStyle>) => {
+    setSubtitleStyle((prev) => ({ ...prev, ...patch }));
+  }, []);
+
+  // README 要求下载名使用元信息里的视频名
+  const downloadName = useMemo(() => mediaFileName(metaInfo, videoName), [metaInfo, videoName]);
+
+  // 源字幕是 ASS 时沿用其样式表，选择预设后改用预设
+  const sourceAss = useMemo(() => {
+    if (!extractedSrt || detectSubtitleFormat(extractedSrt) !== 'ass') return null;
+    try {
+      return parseAss(extractedSrt);
+    } catch {
+      return null;
+    }
+  }, [extractedSrt]);
+
+  const assOptions = useMemo<AssOptions>(() => {
+    if (sourceAss && sourceAss.styles.length > 0 && !stylePreset) {
+      return { title: downloadName || undefined, playResX: sourceAss.playResX, playResY: sourceAss.playResY, styles: sourceAss.styles };
+    }
+    const [presetMain, ...extraStyles] = stylePreset ? ASS_STYLE_PRESETS[stylePreset].styles : [DEFAULT_ASS_STYLE];
+    const mainSize = fontSize * ASS_FONT_SCALE;
+    // 预设里的附加样式（如双语的原文样式）随字号滑块等比缩放
+    const ratio = mainSize / presetMain.fontSize;
+    return {
+      title: downloadName || undefined,
+      styles: [
+        { ...subtitleStyle, fontSize: mainSize },
+        ...extraStyles.map((style) => ({ ...style, fontSize: Math.round(style.fontSize * ratio) })),
+      ],
+    };
+  }, [sourceAss, stylePreset, subtitleStyle, fontSize, downloadName]);
+
+  const downloadSubtitle = useCallback(
+    (format: SubtitleExportFormat) => {
+      if (!subtitleCues) {
+        logStage('done', '字幕解析失败，无法导出', 'error');
+        return;
+      }
+      const content = serializeSubtitle(subtitleCues, format, { ass: assOptions, mode: outputMode, speakers: speakerMarkup });
+      const blob = new Blob([content], { type: `${SUBTITLE_MIME_TYPES[format]};charset=utf-8` });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `${downloadName || 'subtitle'}.${format}`;
+      a.click();
+      URL.revokeObjectURL(url);
+    },
+    [subtitleCues, downloadName, assOptions, outputMode, speakerMarkup, logStage]
+  );
+  const [exportMode, setExportMode] = useState<VideoExportMode>('soft');
+  const [exportContainer, setExportContainer] = useState<VideoContainer>('mkv');
+  const [exportSourceTrack, setExportSourceTrack] = useState(true);
+  const [exportFont, setExportFont] = useState<File | null>(null);
+  const [exportProgress, setExportProgress] = useState<number | null>(null);
+
+  const exportVideo = useCallback(async () => {
+    const video = videoFile;
+    const font = exportFont;
+    if (!video || !subtitleCues) {
+      logStage('export', '请先选择视频并生成字幕', 'warn');
+      return;
+    }
+    start('export');
+    setExportProgress(0);
+    const written: string[] = [];
+    try {
+      const { ffmpeg, fetchFile } = await ensureFfmpeg();
+      // 流水线已写入过视频时直接复用，避免重复占用内存
+      const existing = await ffmpeg.listDir('/').catch(() => []);
+      if (!existing.some((node) => node.name === video.name)) {
+        await ffmpeg.writeFile(video.name, await fetchFile(video));
+      }
+      const writeText = async (name: string, content: string) => {
+        await ffmpeg.writeFile(name, new TextEncoder().encode(content));
+        written.push(name);
+      };
+
+      const outputName = `export_output.${exportContainer}`;
+      let args: string[];
+      if (exportMode === 'soft') {
+        // MKV 用 ASS 保留样式，MP4 的 mov_text 只能从纯文本转换
+        const format = exportContainer === 'mkv' ? 'ass' : 'srt';
+        const serializeOptions = { ass: assOptions, mode: 'translated' as const, speakers: speakerMarkup };
+        const hasTranslation = subtitleCues.some((cue) => cue.translation);
+        const sourceLanguage = asrLanguage === 'auto' ? 'und' : asrLanguage;
+        const tracks: SubtitleTrackInput[] = [];
+        if (hasTranslation) {
+          await writeText(`export_target.${format}`, serializeSubtitle(subtitleCues, format, serializeOptions));
+          tracks.push({ fileName: `export_target.${format}`, language: targetLanguage, title: '译文' });
+        }
+        if (!hasTranslation || exportSourceTrack) {
+          const sourceCues = subtitleCues.map((cue) => ({ ...cue, translation: undefined }));
+          await writeText(`export_source.${format}`, serializeSubtitle(sourceCues, format, serializeOptions));
+          tracks.push({ fileName: `export_source.${format}`, language: sourceLanguage, title: '原文' });
+        }
+        args = buildSoftMuxArgs(video.name, tracks, exportContainer, outputName);
+      } else {
+        if (!font) throw new Error('硬字幕压制需要先选择字体文件');
+        await writeText('export_subs.ass', serializeSubtitle(subtitleCues, 'ass', { ass: assOptions, mode: outputMode, speakers: speakerMarkup }));
+        await ffmpeg.createDir('/fonts').catch(() => undefined);
+        const fontPath = `/fonts/${font.name}`;
+        await ffmpeg.writeFile(fontPath, await fetchFile(font));
+        written.push(fontPath);
+        args = buildBurnInArgs(video.name, 'export_subs.ass', '/fonts', exportContainer, outputName);
+      }
+
+      written.push(outputName);
+      await runAndCollectLogs(ffmpeg, args, {
+        onLog: (message) => {
+          const ratio = parseFfmpegProgress(message, metaInfo?.durationSec);
+          if (ratio === null) {
+            logStage('export', message);
+          } else {
+            setExportProgress(ratio);
+          }
+        },
+      });
+
+      const data = (await ffmpeg.readFile(outputName)) as Uint8Array;
+      const blob = new Blob([new Uint8Array(data)], { type: VIDEO_MIME_TYPES[exportContainer] });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `${downloadName || 'video'}.${exportMode === 'burn' ? 'hardsub' : 'softsub'}.${exportContainer}`;
+      a.click();
+      URL.revokeObjectURL(url);
+      finish('export', { mode: exportMode, size: `${(blob.size / (1024 * 1024)).toFixed(2)} MB` });
+    } catch (error) {
+      logStage('export', `导出失败: ${(error as Error).message}`, 'error');
+    } finally {
+      setExportProgress(null);
+      const resources = resourcesRef.current;
+      if (resources) {
+        await Promise.all(written.map((name) => resources.ffmpeg.deleteFile(name).catch(() => undefined)));
+      }
+    }
+  }, [
+    videoFile,
+    downloadName,
+    subtitleCues,
+    exportMode,
+    exportContainer,
+    exportSourceTrack,
+    exportFont,
+    assOptions,
+    outputMode,
+    speakerMarkup,
+    asrLanguage,
+    targetLanguage,
+    metaInfo?.durationSec,
+    ensureFfmpeg,
+    start,
+    finish,
+    logStage,
+  ]);
+
   const [translationNote, setTranslationNote] = useState('');
 
   return (
@@ -612,6 +1114,18 @@ export default function FFmpegPanel() {
                 onChange={(event) => handleVideoSelect(event.target.files)}
                 className="text-sm"
               />
+              <div className="flex items-center gap-2 text-sm">
+                <label className="text-white/60">导入字幕</label>
+                <input
+                  ref={subtitleInputRef}
+                  type="file"
+                  accept=".srt,.vtt,.ass,.ssa,application/x-subrip,text/vtt"
+                  onChange={(event) => {
+                    handleSubtitleImport(event.target.files).catch(() => {});
+                  }}
+                  className="text-sm"
+                />
+              </div>
               <div className="flex items-center gap-2 text-sm">
                 <label className="text-white/60">识别语言</label>
                 <select
@@ -628,13 +1142,48 @@ export default function FFmpegPanel() {
                 <label className="text-white/60">ASR 供应商</label>
                 <select
                   className="rounded border border-white/20 bg-black/40 px-2 py-1"
-                  value={asrVendor}
-                  onChange={(e) => setAsrVendor(e.target.value as 'volc' | 'soniox')}
+                  value={asrProvider || asrProvidersQuery.data?.defaultProvider || ''}
+                  onChange={(e) => setAsrProvider(e.target.value as AsrProviderId)}
                 >
-                  <option value="volc">火山云</option>
-                  <option value="soniox">Soniox</option>
+                  {(asrProvidersQuery.data?.providers ?? []).map((p) => (
+                    <option key={p.id} value={p.id} disabled={!p.configured}>
+                      {p.label}{p.configured ? '' : '（未配置）'}
+                    </option>
+                  ))}
                 </select>
               </div>
+              <div className="flex items-center gap-2 text-sm">
+                <label className="text-white/60">断句</label>
+                <span className="text-white/40">每行</span>
+                <input
+                  type="number"
+                  min={10}
+                  max={80}
+                  className="w-16 rounded border border-white/20 bg-black/40 px-2 py-1"
+                  value={segmentOptions.maxCharsPerLine}
+                  onChange={(e) => setSegmentOptions((prev) => ({ ...prev, maxCharsPerLine: Number(e.target.value) || prev.maxCharsPerLine }))}
+                />
+                <span className="text-white/40">字宽 · 最多</span>
+                <input
+                  type="number"
+                  min={1}
+                  max={3}
+                  className="w-12 rounded border border-white/20 bg-black/40 px-2 py-1"
+                  value={segmentOptions.maxLines}
+                  onChange={(e) => setSegmentOptions((prev) => ({ ...prev, maxLines: Number(e.target.value) || prev.maxLines }))}
+                />
+                <span className="text-white/40">行 · 最长</span>
+                <input
+                  type="number"
+                  min={1}
+                  max={20}
+                  step={0.5}
+                  className="w-16 rounded border border-white/20 bg-black/40 px-2 py-1"
+                  value={segmentOptions.maxDurationMs / 1000}
+                  onChange={(e) => setSegmentOptions((prev) => ({ ...prev, maxDurationMs: Math.round(Number(e.target.value) * 1000) || prev.maxDurationMs }))}
+                />
+                <span className="text-white/40">秒</span>
+              </div>
               <div className="flex items-center gap-2 text-sm">
                 <label className="text-white/60">目标语言</label>
                 <select
@@ -647,6 +1196,24 @@ export default function FFmpegPanel() {
                   ))}
                 </select>
               </div>
+              <div className="flex items-center gap-2 text-sm">
+                <label className="text-white/60">翻译供应商</label>
+                <select
+                  className="rounded border border-white/20 bg-black/40 px-2 py-1"
+                  value={translateProvider || providersQuery.data?.defaultProvider || ''}
+                  onChange={(e) => setTranslateProvider(e.target.value as ProviderId)}
+                >
+                  {(providersQuery.data?.providers ?? []).map((p) => (
+                    <option key={p.id} value={p.id} disabled={!p.configured}>
+                      {p.label}{p.configured ? '' : '（未配置）'}
+                    </option>
+                  ))}
+                </select>
+                <label className="flex items-center gap-1 text-white/60">
+                  <input type="checkbox" checked={providerFailover} onChange={(e) => setProviderFailover(e.target.checked)} />
+                  失败自动切换
+                </label>
+              </div>
               <div className="flex items-center gap-2 text-sm">
                 <label className="text-white/60">翻译备注</label>
                 <input
@@ -664,7 +1231,11 @@ export default function FFmpegPanel() {
                 开始处理
               </button>
               <button
-                onClick={resetAll}
+                onClick={() => {
+                  resetAll();
+                  setImportedSubtitle(null);
+                  if (subtitleInputRef.current) subtitleInputRef.current.value = '';
+                }}
                 className="text-sm text-white/60 hover:text-white"
               >
                 重置
@@ -701,12 +1272,22 @@ export default function FFmpegPanel() {
                         {isActive && <span className="ml-2 animate-pulse text-xs text-blue-300">进行中…</span>}
                         {isCompleted && <span className="ml-2 text-xs text-emerald-300">完成</span>}
                       </p>
-                      {step.key === 'asr' && asrProgress && isActive && (
+                      {step.key === 'upload' && uploadProgress && isActive && (
+                        <div className="mt-2 text-xs">
+                          <div className="h-2 w-56 overflow-hidden rounded bg-white/10">
+                            <div className="h-full bg-blue-500" style={{ width: `${Math.round((uploadProgress.loaded / Math.max(uploadProgress.total, 1)) * 100)}%` }} />
+                          </div>
+                          <div className="mt-1 text-white/60">
+                            {(uploadProgress.loaded / (1024 * 1024)).toFixed(1)} / {(uploadProgress.total / (1024 * 1024)).toFixed(1)} MB
+                          </div>
+                        </div>
+                      )}
+                      {step.key === 'export' && exportProgress !== null && isActive && (
                         <div className="mt-2 text-xs">
                           <div className="h-2 w-56 overflow-hidden rounded bg-white/10">
-                            <div className="h-full bg-blue-500" style={{ width: `${Math.min(100, Math.round((asrProgress.current / asrProgress.total) * 100))}%` }} />
+                            <div className="h-full bg-blue-500" style={{ width: `${Math.round(exportProgress * 100)}%` }} />
                           </div>
-                          <div className="mt-1 text-white/60">{asrProgress.current}/{asrProgress.total}{asrProgress.etaSec ? ` · 约剩余 ${asrProgress.etaSec}s` : ''}</div>
+                          <div className="mt-1 text-white/60">{Math.round(exportProgress * 100)}%</div>
                         </div>
                       )}
                       {step.key === 'translate' && translateProgress && isActive && (
@@ -717,6 +1298,11 @@ export default function FFmpegPanel() {
                           <div className="mt-1 text-white/60">{translateProgress.current}/{translateProgress.total}{translateProgress.etaSec ? ` · 约剩余 ${translateProgress.etaSec}s` : ''}</div>
                         </div>
                       )}
+                      {step.key === 'translate' && translateJob && isActive && (
+                        <button className="mt-2 text-xs text-red-300 hover:text-red-200" onClick={cancelTranslate}>
+                          取消翻译
+                        </button>
+                      )}
                       {step.extra && (
                         <div className="mt-1 space-y-1 text-xs text-white/60">
                           {Object.entries(step.extra).map(([key, value]) => (
@@ -735,28 +1321,137 @@ export default function FFmpegPanel() {
           <div className={cardClasses}>
             <h2 className="text-lg font-semibold">3. 元信息</h2>
             <dl className="mt-4 grid grid-cols-2 gap-3 text-sm text-white/70">
+              <div className="col-span-2">
+                <dt className="text-xs text-white/40">标题</dt>
+                <dd>{metaInfo?.title || videoName || '未知'}</dd>
+              </div>
               <div>
-                <dt className="text-xs text-white/40">视频格式</dt>
-                <dd>{metaInfo.format ?? '未知'}</dd>
+                <dt className="text-xs text-white/40">封装格式</dt>
+                <dd>{metaInfo?.container ?? '未知'}</dd>
               </div>
               <div>
                 <dt className="text-xs text-white/40">时长</dt>
-                <dd>{parseDuration(metaInfo.duration)}</dd>
+                <dd>{parseDuration(metaInfo?.durationSec)}</dd>
               </div>
               <div>
-                <dt className="text-xs text-white/40">视频编码</dt>
-                <dd>{metaInfo.videoCodec ?? '未知'}</dd>
+                <dt className="text-xs text-white/40">总码率</dt>
+                <dd>{metaInfo?.bitrateKbps ? `${metaInfo.bitrateKbps} kb/s` : '未知'}</dd>
               </div>
               <div>
-                <dt className="text-xs text-white/40">音频编码</dt>
-                <dd>{metaInfo.audioCodec ?? '未知'}</dd>
+                <dt className="text-xs text-white/40">章节</dt>
+                <dd>{metaInfo ? `${metaInfo.chapters.length} 个` : '未知'}</dd>
               </div>
             </dl>
+            {metaInfo && metaInfo.streams.some((stream) => stream.type !== 'subtitle') && (
+              <div className="mt-4 space-y-2 text-sm">
+                <p className="text-xs text-white/40">音视频流</p>
+                {metaInfo.streams
+                  .filter((stream) => stream.type !== 'subtitle')
+                  .map((stream) => (
+                    <div key={stream.streamIndex} className="flex flex-wrap items-center gap-2 rounded border border-white/10 px-3 py-2">
+                      <span className="text-xs text-white/40">#{stream.streamIndex}</span>
+                      <span>{STREAM_TYPE_LABELS[stream.type]}</span>
+                      <span>{stream.codecDetail}</span>
+                      {stream.width && stream.height && <span className="text-white/60">{stream.width}×{stream.height}</span>}
+                      {stream.frameRate && <span className="text-white/60">{stream.frameRate} fps</span>}
+                      {stream.sampleRate && <span className="text-white/60">{stream.sampleRate} Hz</span>}
+                      {stream.channelLayout && <span className="text-white/60">{stream.channelLayout}</span>}
+                      {stream.bitrateKbps && <span className="text-white/60">{stream.bitrateKbps} kb/s</span>}
+                      {stream.language && <span className="text-white/60">{stream.language}</span>}
+                      {stream.title && <span className="text-white/60">{stream.title}</span>}
+                      {stream.isDefault && <span className="rounded bg-white/10 px-1 text-xs">默认</span>}
+                    </div>
+                  ))}
+              </div>
+            )}
+            {metaInfo && metaInfo.chapters.length > 0 && (
+              <div className="mt-4 max-h-40 space-y-1 overflow-y-auto text-sm">
+                <p className="text-xs text-white/40">章节</p>
+                {metaInfo.chapters.map((chapter, i) => (
+                  <div key={i} className="flex gap-3 text-white/70">
+                    <span className="font-mono text-xs text-white/40">{formatTimestamp(Math.round(chapter.startSec * 1000))}</span>
+                    <span>{chapter.title ?? `章节 ${i + 1}`}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+            {subtitleStreams.length > 0 && (
+              <div className="mt-4 space-y-2 text-sm">
+                <p className="text-xs text-white/40">内嵌字幕轨{importedSubtitle ? '（已导入外部字幕，不会使用）' : ''}</p>
+                {subtitleStreams.map((stream) => {
+                  const selected = (subtitleTrack ?? pickSubtitleStream(subtitleStreams)?.index) === stream.index;
+                  return (
+                    <label
+                      key={stream.index}
+                      className={`flex items-center gap-2 rounded border px-3 py-2 ${selected ? 'border-blue-400/60 bg-blue-400/10' : 'border-white/10'}`}
+                    >
+                      <input
+                        type="radio"
+                        name="subtitle-track"
+                        checked={selected}
+                        onChange={() => {
+                          selectSubtitleTrack(stream.index).catch(() => {});
+                        }}
+                      />
+                      <span>#{stream.index}</span>
+                      <span>{stream.language ?? '未知语言'}</span>
+                      {stream.title && <span className="text-white/60">{stream.title}</span>}
+                      <span className="text-xs text-white/40">{stream.codec}</span>
+                      {stream.isDefault && <span className="rounded bg-white/10 px-1 text-xs">默认</span>}
+                      {stream.forced && <span className="rounded bg-white/10 px-1 text-xs">强制</span>}
+                      {stream.bitmap && <span className="rounded bg-orange-400/20 px-1 text-xs text-orange-200">图形字幕，将改用 ASR</span>}
+                    </label>
+                  );
+                })}
+              </div>
+            )}
           </div>
 
           <div className={cardClasses}>
             <h2 className="text-lg font-semibold">4. 字幕预览</h2>
-            <div className="mt-4 flex items-center gap-3 text-sm">
+            <div className="mt-4 flex flex-wrap items-center gap-3 text-sm">
+              <label className="text-white/60">样式预设</label>
+              <select
+                className="rounded border border-white/20 bg-black/40 px-2 py-1"
+                value={stylePreset}
+                onChange={(e) => applyStylePreset(e.target.value as AssPresetKey | '')}
+              >
+                <option value="">{sourceAss && sourceAss.styles.length > 0 ? '源字幕 ASS 样式' : '自定义'}</option>
+                {(Object.keys(ASS_STYLE_PRESETS) as AssPresetKey[]).map((key) => (
+                  <option key={key} value={key}>{ASS_STYLE_PRESETS[key].label}</option>
+                ))}
+              </select>
+              <label className="text-white/60">输出内容</label>
+              <select
+                className="rounded border border-white/20 bg-black/40 px-2 py-1"
+                value={outputMode}
+                onChange={(e) => setOutputMode(e.target.value as OutputMode)}
+              >
+                <option value="translated">仅译文</option>
+                <option value="bilingual">双语（原文在上）</option>
+              </select>
+              {speakers.length > 0 && (
+                <>
+                  <label className="text-white/60">说话人标记</label>
+                  <select
+                    className="rounded border border-white/20 bg-black/40 px-2 py-1"
+                    value={speakerMarkup}
+                    onChange={(e) => setSpeakerMarkup(e.target.value as SpeakerMarkup)}
+                  >
+                    <option value="none">不标记</option>
+                    <option value="dash">对白破折号</option>
+                    <option value="label">说话人名字</option>
+                  </select>
+                </>
+              )}
+              <label className="text-white/60">字体</label>
+              <input
+                className="w-40 rounded border border-white/20 bg-black/40 px-2 py-1"
+                value={subtitleStyle.fontName}
+                onChange={(e) => updateSubtitleStyle({ fontName: e.target.value })}
+              />
+            </div>
+            <div className="mt-3 flex flex-wrap items-center gap-3 text-sm">
               <label className="text-white/60">字号</label>
               <input
                 type="range"
@@ -766,29 +1461,193 @@ export default function FFmpegPanel() {
                 onChange={(event) => setFontSize(Number(event.target.value))}
               />
               <span>{fontSize}px</span>
+              <label className="text-white/60">描边</label>
+              <input
+                type="number"
+                min="0"
+                max="10"
+                step="0.5"
+                className="w-16 rounded border border-white/20 bg-black/40 px-2 py-1"
+                value={subtitleStyle.outline}
+                onChange={(e) => updateSubtitleStyle({ outline: Number(e.target.value) })}
+              />
+              <label className="text-white/60">文字色</label>
+              <input
+                type="color"
+                value={subtitleStyle.primaryColor}
+                onChange={(e) => updateSubtitleStyle({ primaryColor: e.target.value })}
+              />
+              <label className="text-white/60">描边色</label>
+              <input
+                type="color"
+                value={subtitleStyle.outlineColor}
+                onChange={(e) => updateSubtitleStyle({ outlineColor: e.target.value })}
+              />
+              <label className="text-white/60">底边距</label>
+              <input
+                type="number"
+                min="0"
+                max="300"
+                className="w-16 rounded border border-white/20 bg-black/40 px-2 py-1"
+                value={subtitleStyle.marginV}
+                onChange={(e) => updateSubtitleStyle({ marginV: Number(e.target.value) })}
+              />
             </div>
-            <div className="mt-4 max-h-80 overflow-y-auto rounded border border-white/10 bg-black/60 p-4" style={{ fontSize }}>
-              <pre className="whitespace-pre-wrap text-white/90">
-                {previewSrt || '暂无字幕内容'}
-              </pre>
-            </div>
+            {parsedCues && (
+              <div className="mt-4 flex items-center gap-2 text-sm">
+                <button
+                  className={`rounded px-3 py-1 ${previewView === 'editor' ? 'bg-blue-500 text-white' : 'border border-white/20 hover:bg-white/10'}`}
+                  onClick={() => setPreviewView('editor')}
+                >
+                  编辑
+                </button>
+                <button
+                  className={`rounded px-3 py-1 ${previewView === 'text' ? 'bg-blue-500 text-white' : 'border border-white/20 hover:bg-white/10'}`}
+                  onClick={() => setPreviewView('text')}
+                >
+                  文本
+                </button>
+              </div>
+            )}
+            {parsedCues && previewView === 'editor' ? (
+              <SubtitleEditor
+                className="mt-4 rounded border border-white/10 bg-black/60 p-4 outline-none"
+                cues={parsedCues}
+                videoFile={videoFile}
+                waveform={waveform}
+                overlayStyle={{ fontSize, fontFamily: `"${subtitleStyle.fontName}", sans-serif`, color: subtitleStyle.primaryColor }}
+                onChange={editCues}
+                onUndo={cueHistory.undo}
+                onRedo={cueHistory.redo}
+                canUndo={cueHistory.canUndo}
+                canRedo={cueHistory.canRedo}
+              />
+            ) : (
+              <div
+                className="mt-4 max-h-80 overflow-y-auto rounded border border-white/10 bg-black/60 p-4"
+                style={{ fontSize, fontFamily: `"${subtitleStyle.fontName}", sans-serif`, color: subtitleStyle.primaryColor }}
+              >
+                <pre className="whitespace-pre-wrap" style={{ fontFamily: 'inherit' }}>
+                  {previewSrt || '暂无字幕内容'}
+                </pre>
+              </div>
+            )}
             {previewSrt && (
               <div className="mt-4 flex items-center gap-3">
                 <button
                   className="rounded bg-blue-500 px-4 py-2 text-white hover:bg-blue-600"
-                  onClick={() => {
-                    const blob = new Blob([previewSrt], { type: 'text/plain;charset=utf-8' });
-                    const url = URL.createObjectURL(blob);
-                    const a = document.createElement('a');
-                    a.href = url;
-                    a.download = `${videoName || 'subtitle'}.srt`;
-                    a.click();
-                    URL.revokeObjectURL(url);
-                  }}
+                  onClick={() => downloadSubtitle('srt')}
                 >
-                  下载字幕
+                  下载 SRT
                 </button>
-                <span className="text-sm text-white/60">下载文件名会根据视频名称生成</span>
+                <button
+                  className="rounded bg-blue-500 px-4 py-2 text-white hover:bg-blue-600"
+                  onClick={() => downloadSubtitle('vtt')}
+                >
+                  下载 VTT
+                </button>
+                <button
+                  className="rounded bg-blue-500 px-4 py-2 text-white hover:bg-blue-600"
+                  onClick={() => downloadSubtitle('ass')}
+                >
+                  下载 ASS
+                </button>
+                <span className="text-sm text-white/60">下载文件名会根据视频名称生成，ASS 会带上当前样式</span>
+              </div>
+            )}
+            {previewSrt && videoFile && (
+              <div className="mt-4 flex flex-wrap items-center gap-3 rounded border border-white/10 bg-black/30 p-3 text-sm">
+                <label className="text-white/60">导出视频</label>
+                <select
+                  className="rounded border border-white/20 bg-black/40 px-2 py-1"
+                  value={exportMode}
+                  onChange={(e) => setExportMode(e.target.value as VideoExportMode)}
+                >
+                  <option value="soft">软字幕封装（不重新编码）</option>
+                  <option value="burn">硬字幕压制（按当前样式）</option>
+                </select>
+                <select
+                  className="rounded border border-white/20 bg-black/40 px-2 py-1"
+                  value={exportContainer}
+                  onChange={(e) => setExportContainer(e.target.value as VideoContainer)}
+                >
+                  <option value="mkv">MKV</option>
+                  <option value="mp4">MP4</option>
+                </select>
+                {exportMode === 'soft' ? (
+                  <label className="flex items-center gap-1 text-white/60">
+                    <input type="checkbox" checked={exportSourceTrack} onChange={(e) => setExportSourceTrack(e.target.checked)} />
+                    同时封装原文轨道
+                  </label>
+                ) : (
+                  <label className="flex items-center gap-2 text-white/60">
+                    字体文件
+                    <input
+                      type="file"
+                      accept=".ttf,.otf,.ttc"
+                      className="text-xs"
+                      onChange={(e) => setExportFont(e.target.files?.[0] ?? null)}
+                    />
+                  </label>
+                )}
+                <button
+                  className="rounded bg-blue-500 px-4 py-2 text-white hover:bg-blue-600 disabled:bg-white/20"
+                  disabled={exportProgress !== null || (exportMode === 'burn' && !exportFont)}
+                  onClick={exportVideo}
+                >
+                  {exportProgress !== null ? `导出中 ${Math.round(exportProgress * 100)}%` : '导出视频'}
+                </button>
+                {exportMode === 'burn' && (
+                  <span className="w-full text-xs text-white/40">浏览器内无系统字体，需上传包含字幕文字的字体（中文请选 CJK 字体）；压制会重新编码视频，耗时较长</span>
+                )}
+              </div>
+            )}
+            <LintPanel
+              className="mt-4 rounded border border-orange-300/30 bg-orange-300/5 p-3 text-sm"
+              warnings={lintWarnings}
+              onFix={fixLintWarning}
+              onFixAll={fixAllLintWarnings}
+            />
+            <SpeakerPanel
+              className="mt-4 rounded border border-white/10 bg-black/30 p-3 text-sm"
+              speakers={speakers}
+              names={speakerNames}
+              onNamesChange={setSpeakerNames}
+            />
+            {translateFailures.length > 0 && (
+              <div className="mt-4 rounded border border-red-300/30 bg-red-300/5 p-3 text-sm">
+                <div className="flex items-center justify-between">
+                  <p className="text-red-300">{translateFailures.length} 条字幕翻译失败，当前显示原文</p>
+                  {translateJob && (
+                    <button
+                      className="rounded bg-red-500 px-3 py-1 text-xs text-white hover:bg-red-600 disabled:bg-white/20"
+                      disabled={retryFailedMutation.isPending}
+                      onClick={() => retryFailedMutation.mutate(translateJob)}
+                    >
+                      {retryFailedMutation.isPending ? '重试中…' : '重试失败条目'}
+                    </button>
+                  )}
+                </div>
+                <ul className="mt-2 max-h-40 space-y-1 overflow-y-auto text-xs text-white/70">
+                  {translateFailures.map((f) => (
+                    <li key={f.index}>
+                      #{f.index}（已尝试 {f.attempts} 次）{f.error}
+                    </li>
+                  ))}
+                </ul>
+                {retryFailedMutation.error && <p className="mt-2 text-xs text-red-300">{retryFailedMutation.error.message}</p>}
+              </div>
+            )}
+            {glossaryViolations.length > 0 && (
+              <div className="mt-4 rounded border border-yellow-300/30 bg-yellow-300/5 p-3 text-sm">
+                <p className="text-yellow-300">术语检查：{glossaryViolations.length} 处未按术语表翻译</p>
+                <ul className="mt-2 max-h-40 space-y-1 overflow-y-auto text-xs text-white/70">
+                  {glossaryViolations.map((v) => (
+                    <li key={`${v.index}-${v.source}`}>
+                      #{v.index}「{v.source}」应译为「{v.expected}」
+                    </li>
+                  ))}
+                </ul>
               </div>
             )}
           </div>
@@ -824,6 +1683,8 @@ export default function FFmpegPanel() {
             </div>
           </div>
 
+          <GlossaryPanel className={cardClasses} selectedIds={glossaryIds} onSelectedChange={setGlossaryIds} />
+
           <div className={cardClasses + (isDark ? ' text-sm text-white/70' : ' text-sm text-neutral-700')}>
             <h2 className={isDark ? 'text-lg font-semibold text-white' : 'text-lg font-semibold text-neutral-900'}>使用说明</h2>
             <ul className="mt-3 space-y-2 list-disc pl-4">
@@ -0,0 +1,186 @@
+'use client'
+
+import { useCallback, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+
+import {
+  formatGlossaryText,
+  parseGlossaryText,
+  type Glossary,
+  type GlossarySummary,
+} from '@/utils/translation/glossary';
+
+type GlossaryPanelProps = {
+  className: string;
+  selectedIds: string[];
+  onSelectedChange: (ids: string[]) => void;
+};
+
+const GLOSSARY_PLACEHOLDER = ['# 每行一条', 'Madoka => 小圆', 'Soul Gem => 灵魂宝石 [Aa]', '!Kyubey'].join('\n');
+
+export default function GlossaryPanel({ className, selectedIds, onSelectedChange }: GlossaryPanelProps) {
+  const queryClient = useQueryClient();
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const [text, setText] = useState('');
+  const [error, setError] = useState('');
+
+  const listQuery = useQuery<GlossarySummary[], Error>({
+    queryKey: ['glossaries'],
+    queryFn: async () => {
+      const response = await fetch('/api/glossaries');
+      if (!response.ok) {
+        throw new Error(await response.text());
+      }
+      return ((await response.json()) as { glossaries: GlossarySummary[] }).glossaries;
+    },
+  });
+
+  const saveMutation = useMutation<{ glossary: Glossary }, Error, { id: string | null; name: string; text: string }>({
+    mutationFn: async (input) => {
+      const response = await fetch(input.id ? `/api/glossaries/${encodeURIComponent(input.id)}` : '/api/glossaries', {
+        method: input.id ? 'PUT' : 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify({ name: input.name, terms: parseGlossaryText(input.text) }),
+      });
+      if (!response.ok) {
+        throw new Error(await response.text());
+      }
+      return (await response.json()) as { glossary: Glossary };
+    },
+    onSuccess: ({ glossary }) => {
+      setEditingId(glossary.id);
+      setText(formatGlossaryText(glossary.terms));
+      queryClient.invalidateQueries({ queryKey: ['glossaries'] });
+    },
+  });
+
+  const deleteMutation = useMutation<void, Error, string>({
+    mutationFn: async (id) => {
+      const response = await fetch(`/api/glossaries/${encodeURIComponent(id)}`, { method: 'DELETE' });
+      if (!response.ok) {
+        throw new Error(await response.text());
+      }
+    },
+    onSuccess: (_, id) => {
+      onSelectedChange(selectedIds.filter((selected) => selected !== id));
+      if (editingId === id) {
+        setEditingId(null);
+        setName('');
+        setText('');
+      }
+      queryClient.invalidateQueries({ queryKey: ['glossaries'] });
+    },
+  });
+
+  const startEdit = useCallback(async (id: string) => {
+    setError('');
+    const response = await fetch(`/api/glossaries/${encodeURIComponent(id)}`);
+    if (!response.ok) {
+      setError(`读取术语表失败: ${response.status}`);
+      return;
+    }
+    const { glossary } = (await response.json()) as { glossary: Glossary };
+    setEditingId(glossary.id);
+    setName(glossary.name);
+    setText(formatGlossaryText(glossary.terms));
+  }, []);
+
+  const toggleSelected = useCallback(
+    (id: string) => {
+      onSelectedChange(selectedIds.includes(id) ? selectedIds.filter((selected) => selected !== id) : [...selectedIds, id]);
+    },
+    [selectedIds, onSelectedChange]
+  );
+
+  const save = useCallback(() => {
+    setError('');
+    if (!name.trim()) {
+      setError('请填写术语表名称');
+      return;
+    }
+    if (parseGlossaryText(text).length === 0) {
+      setError('术语表为空');
+      return;
+    }
+    saveMutation.mutate({ id: editingId, name: name.trim(), text });
+  }, [editingId, name, text, saveMutation]);
+
+  const glossaries = listQuery.data ?? [];
+
+  return (
+    <div className={className}>
+      <h2 className="text-lg font-semibold">术语表</h2>
+      <p className="mt-1 text-sm text-white/60">勾选的术语表会注入翻译提示词，并在翻译完成后逐条检查译文。</p>
+      <div className="mt-4 space-y-2 text-sm">
+        {listQuery.isLoading && <p className="text-white/40">加载中…</p>}
+        {listQuery.error && <p className="text-red-300">术语表加载失败: {listQuery.error.message}</p>}
+        {!listQuery.isLoading && glossaries.length === 0 && <p className="text-white/40">暂无术语表。</p>}
+        {glossaries.map((glossary) => (
+          <div key={glossary.id} className="flex items-center justify-between rounded border border-white/10 bg-black/40 px-3 py-2">
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={selectedIds.includes(glossary.id)}
+                onChange={() => toggleSelected(glossary.id)}
+              />
+              <span>{glossary.name}</span>
+              <span className="text-xs text-white/40">{glossary.termCount} 条</span>
+            </label>
+            <div className="flex items-center gap-3 text-xs">
+              <button className="text-white/60 hover:text-white" onClick={() => startEdit(glossary.id).catch(() => {})}>
+                编辑
+              </button>
+              <button
+                className="text-red-300 hover:text-red-200"
+                disabled={deleteMutation.isPending}
+                onClick={() => deleteMutation.mutate(glossary.id)}
+              >
+                删除
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+      <div className="mt-4 space-y-2 text-sm">
+        <input
+          className="w-full rounded border border-white/20 bg-black/40 px-2 py-1"
+          placeholder="术语表名称"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+        />
+        <textarea
+          className="h-32 w-full rounded border border-white/20 bg-black/40 px-2 py-1 font-mono text-xs"
+          placeholder={GLOSSARY_PLACEHOLDER}
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+        />
+        <p className="text-xs text-white/40">格式：源词 =&gt; 译词；行尾 [Aa] 表示区分大小写；!源词 表示保留原文不翻译。</p>
+        <div className="flex items-center gap-3">
+          <button
+            className="rounded bg-emerald-500 px-3 py-1 text-white hover:bg-emerald-600 disabled:bg-white/20"
+            disabled={saveMutation.isPending}
+            onClick={save}
+          >
+            {editingId ? '保存修改' : '新建术语表'}
+          </button>
+          {editingId && (
+            <button
+              className="text-white/60 hover:text-white"
+              onClick={() => {
+                setEditingId(null);
+                setName('');
+                setText('');
+              }}
+            >
+              取消编辑
+            </button>
+          )}
+        </div>
+        {(error || saveMutation.error || deleteMutation.error) && (
+          <p className="text-red-300">{error || saveMutation.error?.message || deleteMutation.error?.message}</p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,59 @@
+'use client'
+
+import { type LintFix, type LintRule, type LintWarning } from '@/utils/subtitles';
+
+type LintPanelProps = {
+  className: string;
+  warnings: LintWarning[];
+  onFix: (warning: LintWarning) => void;
+  onFixAll: () => void;
+};
+
+const RULE_LABELS: Record<LintRule, string> = {
+  overlap: '时间重叠',
+  duration: '时长异常',
+  'too-short': '显示过短',
+  'reading-speed': '阅读过快',
+  'line-length': '单行过长',
+  'line-count': '行数过多',
+};
+
+const FIX_LABELS: Record<LintFix, string> = {
+  trim: '截短',
+  extend: '延长',
+  merge: '与下一条合并',
+  split: '拆分',
+  rebalance: '重新折行',
+};
+
+export default function LintPanel({ className, warnings, onFix, onFixAll }: LintPanelProps) {
+  if (warnings.length === 0) return null;
+  const fixable = warnings.some((w) => w.fix);
+  return (
+    <div className={className}>
+      <div className="flex items-center justify-between">
+        <p className="text-orange-300">质量检查：{warnings.length} 个问题</p>
+        {fixable && (
+          <button className="rounded bg-orange-500 px-3 py-1 text-xs text-white hover:bg-orange-600" onClick={onFixAll}>
+            全部自动修复
+          </button>
+        )}
+      </div>
+      <ul className="mt-2 max-h-48 space-y-1 overflow-y-auto text-xs text-white/70">
+        {warnings.map((w) => (
+          <li key={`${w.position}-${w.layer}-${w.rule}`} className="flex items-center justify-between gap-2">
+            <span>
+              #{w.index}
+              {w.layer === 'translation' ? '（译文）' : ''} {RULE_LABELS[w.rule]}：{w.message}
+            </span>
+            {w.fix && (
+              <button className="shrink-0 text-orange-300 hover:text-orange-200" onClick={() => onFix(w)}>
+                {FIX_LABELS[w.fix]}
+              </button>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,32 @@
+'use client'
+
+type SpeakerPanelProps = {
+  className: string;
+  /** 识别出的原始说话人标签，如 "Speaker 1"。 */
+  speakers: string[];
+  names: Record<string, string>;
+  onNamesChange: (names: Record<string, string>) => void;
+};
+
+export default function SpeakerPanel({ className, speakers, names, onNamesChange }: SpeakerPanelProps) {
+  if (speakers.length === 0) return null;
+  return (
+    <div className={className}>
+      <p className="text-white/80">说话人</p>
+      <p className="mt-1 text-xs text-white/40">给识别出的说话人改成角色名，预览与导出会同步更新；留空保持原标签。</p>
+      <div className="mt-2 grid gap-2 sm:grid-cols-2">
+        {speakers.map((speaker) => (
+          <label key={speaker} className="flex items-center gap-2">
+            <span className="w-20 shrink-0 text-xs text-white/60">{speaker}</span>
+            <input
+              className="w-full rounded border border-white/20 bg-black/40 px-2 py-1"
+              placeholder={speaker}
+              value={names[speaker] ?? ''}
+              onChange={(e) => onNamesChange({ ...names, [speaker]: e.target.value })}
+            />
+          </label>
+        ))}
+      </div>
+    </div>
+  );
+}
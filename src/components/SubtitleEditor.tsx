@@ -0,0 +1,277 @@
+'use client'
+
+import { useCallback, useEffect, useMemo, useRef, useState, type CSSProperties, type KeyboardEvent } from 'react';
+
+import WaveformTimeline from '@/components/WaveformTimeline';
+import { type Waveform } from '@/utils/audio';
+import {
+  deleteCue,
+  formatTimestamp,
+  insertCueAfter,
+  mergeCues,
+  nudgeCue,
+  parseTimestamp,
+  splitCue,
+  textToLines,
+  updateCue,
+  type Cue,
+} from '@/utils/subtitles';
+
+type SubtitleEditorProps = {
+  className: string;
+  cues: Cue[];
+  videoFile: File | null;
+  /** 有波形时显示可拖动的时间轴。 */
+  waveform?: Waveform | null;
+  /** 叠加在视频上的字幕样式，与预览保持一致。 */
+  overlayStyle: CSSProperties;
+  /** coalesceKey 相同的连续修改会合并为一步撤销。 */
+  onChange: (cues: Cue[], coalesceKey?: string) => void;
+  onUndo: () => void;
+  onRedo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
+};
+
+const NUDGE_MS = 100;
+
+type CueTextProps = {
+  lines: string[];
+  placeholder: string;
+  onChange: (lines: string[]) => void;
+};
+
+// 本地保留原始输入（含正在输入的换行），只把规整后的行交给上层
+function CueText({ lines, placeholder, onChange }: CueTextProps) {
+  const [draft, setDraft] = useState(lines.join('\n'));
+  useEffect(() => {
+    setDraft((prev) => (textToLines(prev).join('\n') === lines.join('\n') ? prev : lines.join('\n')));
+  }, [lines]);
+  return (
+    <textarea
+      className="w-full resize-y rounded border border-white/10 bg-black/40 px-2 py-1"
+      rows={Math.max(1, lines.length)}
+      placeholder={placeholder}
+      value={draft}
+      onChange={(e) => {
+        setDraft(e.target.value);
+        onChange(textToLines(e.target.value));
+      }}
+    />
+  );
+}
+
+type TimeInputProps = {
+  ms: number;
+  onCommit: (ms: number) => void;
+};
+
+function TimeInput({ ms, onCommit }: TimeInputProps) {
+  return (
+    <input
+      // 外部修改时间后用 key 重新挂载，刷新显示
+      key={ms}
+      className="w-28 rounded border border-white/10 bg-black/40 px-1 py-0.5 font-mono text-xs"
+      defaultValue={formatTimestamp(ms)}
+      onBlur={(e) => {
+        const parsed = parseTimestamp(e.target.value.trim());
+        if (parsed === null) {
+          e.target.value = formatTimestamp(ms);
+        } else if (parsed !== ms) {
+          onCommit(parsed);
+        }
+      }}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') e.currentTarget.blur();
+      }}
+    />
+  );
+}
+
+export default function SubtitleEditor({
+  className,
+  cues,
+  videoFile,
+  waveform,
+  overlayStyle,
+  onChange,
+  onUndo,
+  onRedo,
+  canUndo,
+  canRedo,
+}: SubtitleEditorProps) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [videoUrl, setVideoUrl] = useState<string | null>(null);
+  const [currentMs, setCurrentMs] = useState(0);
+  const [selected, setSelected] = useState(0);
+
+  useEffect(() => {
+    if (!videoFile) {
+      setVideoUrl(null);
+      return;
+    }
+    const url = URL.createObjectURL(videoFile);
+    setVideoUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [videoFile]);
+
+  useEffect(() => {
+    if (selected >= cues.length) setSelected(Math.max(0, cues.length - 1));
+  }, [cues.length, selected]);
+
+  const activePosition = useMemo(
+    () => cues.findIndex((cue) => cue.startMs <= currentMs && currentMs < cue.endMs),
+    [cues, currentMs]
+  );
+  const activeCue = activePosition >= 0 ? cues[activePosition] : null;
+  const hasTranslation = useMemo(() => cues.some((cue) => cue.translation), [cues]);
+
+  const seek = useCallback((ms: number) => {
+    if (videoRef.current) videoRef.current.currentTime = ms / 1000;
+    setCurrentMs(ms);
+  }, []);
+
+  const selectCue = useCallback(
+    (position: number) => {
+      setSelected(position);
+      if (cues[position]) seek(cues[position].startMs);
+    },
+    [cues, seek]
+  );
+
+  // 输入框里保留浏览器自带的撤销，其余位置的快捷键交给编辑历史
+  const handleKeyDown = useCallback(
+    (e: KeyboardEvent<HTMLDivElement>) => {
+      const target = e.target as HTMLElement;
+      if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA') return;
+      if (!(e.ctrlKey || e.metaKey)) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        onUndo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        onRedo();
+      }
+    },
+    [onUndo, onRedo]
+  );
+
+  const selectedCue = cues[selected];
+  const toolButton = 'rounded border border-white/20 px-2 py-0.5 hover:bg-white/10 disabled:opacity-40';
+
+  return (
+    <div className={className} tabIndex={-1} onKeyDown={handleKeyDown}>
+      {videoUrl && (
+        <div className="relative overflow-hidden rounded bg-black">
+          <video
+            ref={videoRef}
+            src={videoUrl}
+            controls
+            className="max-h-80 w-full"
+            onTimeUpdate={(e) => setCurrentMs(Math.round(e.currentTarget.currentTime * 1000))}
+            onSeeked={(e) => setCurrentMs(Math.round(e.currentTarget.currentTime * 1000))}
+          />
+          {activeCue && (
+            <div
+              className="pointer-events-none absolute inset-x-0 bottom-12 whitespace-pre-line px-4 text-center"
+              style={{ ...overlayStyle, textShadow: '0 0 3px #000, 0 0 3px #000' }}
+            >
+              {(activeCue.translation ?? activeCue.lines).join('\n')}
+            </div>
+          )}
+        </div>
+      )}
+
+      {waveform && (
+        <WaveformTimeline
+          className="mt-3"
+          waveform={waveform}
+          cues={cues}
+          currentMs={currentMs}
+          selected={selected}
+          onSelect={setSelected}
+          onSeek={seek}
+          onChange={onChange}
+        />
+      )}
+
+      <div className="mt-3 flex flex-wrap items-center gap-2 text-xs">
+        <button className={toolButton} disabled={!canUndo} onClick={onUndo}>撤销</button>
+        <button className={toolButton} disabled={!canRedo} onClick={onRedo}>重做</button>
+        <span className="text-white/40">|</span>
+        <span className="text-white/60">#{selectedCue?.index ?? '-'}</span>
+        <span className="text-white/60">开始</span>
+        <button className={toolButton} disabled={!selectedCue} onClick={() => onChange(nudgeCue(cues, selected, 'start', -NUDGE_MS))}>-0.1s</button>
+        <button className={toolButton} disabled={!selectedCue} onClick={() => onChange(nudgeCue(cues, selected, 'start', NUDGE_MS))}>+0.1s</button>
+        <span className="text-white/60">结束</span>
+        <button className={toolButton} disabled={!selectedCue} onClick={() => onChange(nudgeCue(cues, selected, 'end', -NUDGE_MS))}>-0.1s</button>
+        <button className={toolButton} disabled={!selectedCue} onClick={() => onChange(nudgeCue(cues, selected, 'end', NUDGE_MS))}>+0.1s</button>
+        <span className="text-white/60">整体</span>
+        <button className={toolButton} disabled={!selectedCue} onClick={() => onChange(nudgeCue(cues, selected, 'both', -NUDGE_MS))}>-0.1s</button>
+        <button className={toolButton} disabled={!selectedCue} onClick={() => onChange(nudgeCue(cues, selected, 'both', NUDGE_MS))}>+0.1s</button>
+        <span className="text-white/40">|</span>
+        <button className={toolButton} disabled={!selectedCue} onClick={() => onChange(splitCue(cues, selected))}>拆分</button>
+        <button className={toolButton} disabled={selected >= cues.length - 1} onClick={() => onChange(mergeCues(cues, selected))}>与下一条合并</button>
+        <button
+          className={toolButton}
+          onClick={() => {
+            onChange(insertCueAfter(cues, selected));
+            setSelected(cues.length === 0 ? 0 : selected + 1);
+          }}
+        >
+          在后面插入
+        </button>
+        <button className={toolButton} disabled={!selectedCue} onClick={() => onChange(deleteCue(cues, selected))}>删除</button>
+      </div>
+
+      <div className="mt-3 max-h-96 overflow-y-auto rounded border border-white/10">
+        <table className="w-full text-left text-sm">
+          <thead className="sticky top-0 bg-neutral-900 text-xs text-white/60">
+            <tr>
+              <th className="px-2 py-1">#</th>
+              <th className="px-2 py-1">时间</th>
+              <th className="px-2 py-1">原文</th>
+              {hasTranslation && <th className="px-2 py-1">译文</th>}
+            </tr>
+          </thead>
+          <tbody>
+            {cues.map((cue, position) => (
+              <tr
+                key={`${position}-${cue.startMs}`}
+                className={`border-t border-white/5 align-top ${position === selected ? 'bg-blue-500/20' : position === activePosition ? 'bg-white/5' : ''}`}
+                onClick={() => setSelected(position)}
+              >
+                <td className="px-2 py-1">
+                  <button className="text-xs text-white/60 hover:text-white" title="跳转到该条" onClick={() => selectCue(position)}>
+                    {cue.index}
+                  </button>
+                </td>
+                <td className="space-y-1 px-2 py-1">
+                  <TimeInput ms={cue.startMs} onCommit={(ms) => onChange(updateCue(cues, position, { startMs: Math.min(ms, cue.endMs - 1) }))} />
+                  <TimeInput ms={cue.endMs} onCommit={(ms) => onChange(updateCue(cues, position, { endMs: Math.max(ms, cue.startMs + 1) }))} />
+                </td>
+                <td className="px-2 py-1">
+                  <CueText
+                    lines={cue.lines}
+                    placeholder="原文"
+                    onChange={(lines) => onChange(updateCue(cues, position, { lines }), `lines-${position}`)}
+                  />
+                </td>
+                {hasTranslation && (
+                  <td className="px-2 py-1">
+                    <CueText
+                      lines={cue.translation ?? []}
+                      placeholder="译文"
+                      onChange={(translation) => onChange(updateCue(cues, position, { translation }), `translation-${position}`)}
+                    />
+                  </td>
+                )}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
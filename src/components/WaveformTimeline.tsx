@@ -0,0 +1,218 @@
+'use client'
+
+import { useCallback, useEffect, useMemo, useRef, useState, type MouseEvent, type PointerEvent as ReactPointerEvent } from 'react';
+
+import { detectSilences, snapToSilence, type Waveform } from '@/utils/audio';
+import { updateCue, type Cue } from '@/utils/subtitles';
+
+type WaveformTimelineProps = {
+  className: string;
+  waveform: Waveform;
+  cues: Cue[];
+  currentMs: number;
+  selected: number;
+  onSelect: (position: number) => void;
+  onSeek: (ms: number) => void;
+  onChange: (cues: Cue[], coalesceKey?: string) => void;
+};
+
+type DragMode = 'move' | 'start' | 'end';
+
+type DragState = {
+  id: number;
+  position: number;
+  mode: DragMode;
+  originX: number;
+  startMs: number;
+  endMs: number;
+};
+
+const HEIGHT = 96;
+const EDGE_PX = 6;
+const MIN_CUE_MS = 100;
+const ZOOM_LEVELS = [25, 50, 100, 200, 400];
+
+export default function WaveformTimeline({
+  className,
+  waveform,
+  cues,
+  currentMs,
+  selected,
+  onSelect,
+  onSeek,
+  onChange,
+}: WaveformTimelineProps) {
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const dragRef = useRef<DragState | null>(null);
+  const dragCountRef = useRef(0);
+  const [pxPerSecond, setPxPerSecond] = useState(100);
+  const [scrollLeft, setScrollLeft] = useState(0);
+  const [viewWidth, setViewWidth] = useState(0);
+  const [snap, setSnap] = useState(true);
+
+  const silences = useMemo(() => detectSilences(waveform), [waveform]);
+  const totalWidth = Math.ceil((waveform.durationMs / 1000) * pxPerSecond);
+  const toPx = useCallback((ms: number) => (ms / 1000) * pxPerSecond, [pxPerSecond]);
+
+  useEffect(() => {
+    const el = scrollRef.current;
+    if (!el) return;
+    const observer = new ResizeObserver(() => setViewWidth(el.clientWidth));
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, []);
+
+  // 只绘制可见区域，长视频放大后总宽度会超过 canvas 上限
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || viewWidth === 0) return;
+    const ratio = window.devicePixelRatio || 1;
+    canvas.width = viewWidth * ratio;
+    canvas.height = HEIGHT * ratio;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+    ctx.setTransform(ratio, 0, 0, ratio, 0, 0);
+    ctx.clearRect(0, 0, viewWidth, HEIGHT);
+
+    const binsPerPx = waveform.binsPerSecond / pxPerSecond;
+    const mid = HEIGHT / 2;
+    ctx.fillStyle = 'rgba(255, 255, 255, 0.06)';
+    for (const range of silences) {
+      const x = toPx(range.startMs) - scrollLeft;
+      const w = toPx(range.endMs - range.startMs);
+      if (x + w < 0 || x > viewWidth) continue;
+      ctx.fillRect(x, 0, w, HEIGHT);
+    }
+    ctx.fillStyle = 'rgba(96, 165, 250, 0.8)';
+    for (let x = 0; x < viewWidth; x++) {
+      const from = Math.floor((scrollLeft + x) * binsPerPx);
+      const to = Math.max(from + 1, Math.floor((scrollLeft + x + 1) * binsPerPx));
+      let peak = 0;
+      for (let bin = from; bin < to && bin < waveform.peaks.length; bin++) peak = Math.max(peak, waveform.peaks[bin]);
+      const h = Math.max(1, peak * mid);
+      ctx.fillRect(x, mid - h, 1, h * 2);
+    }
+  }, [waveform, silences, pxPerSecond, scrollLeft, viewWidth, toPx]);
+
+  // 播放时让播放头保持在可视范围内
+  useEffect(() => {
+    const el = scrollRef.current;
+    if (!el || dragRef.current) return;
+    const x = toPx(currentMs);
+    if (x < el.scrollLeft || x > el.scrollLeft + el.clientWidth) {
+      el.scrollLeft = Math.max(0, x - el.clientWidth / 4);
+    }
+  }, [currentMs, toPx]);
+
+  const beginDrag = useCallback(
+    (e: ReactPointerEvent<HTMLDivElement>, position: number) => {
+      e.stopPropagation();
+      const cue = cues[position];
+      const rect = e.currentTarget.getBoundingClientRect();
+      const offset = e.clientX - rect.left;
+      const mode: DragMode = offset <= EDGE_PX ? 'start' : rect.width - offset <= EDGE_PX ? 'end' : 'move';
+      dragCountRef.current += 1;
+      dragRef.current = { id: dragCountRef.current, position, mode, originX: e.clientX, startMs: cue.startMs, endMs: cue.endMs };
+      e.currentTarget.setPointerCapture(e.pointerId);
+      onSelect(position);
+    },
+    [cues, onSelect]
+  );
+
+  const moveDrag = useCallback(
+    (e: ReactPointerEvent<HTMLDivElement>) => {
+      const drag = dragRef.current;
+      if (!drag) return;
+      const delta = Math.round(((e.clientX - drag.originX) / pxPerSecond) * 1000);
+      // 不越过相邻字幕
+      const minStart = drag.position > 0 ? cues[drag.position - 1].endMs : 0;
+      const maxEnd = cues[drag.position + 1]?.startMs ?? waveform.durationMs;
+      const snapEdge = (ms: number, edge: 'start' | 'end') => (snap ? snapToSilence(ms, silences, edge) : ms);
+      let startMs = drag.startMs;
+      let endMs = drag.endMs;
+      if (drag.mode === 'move') {
+        const length = drag.endMs - drag.startMs;
+        startMs = Math.min(Math.max(minStart, snapEdge(drag.startMs + delta, 'start')), maxEnd - length);
+        endMs = startMs + length;
+      } else if (drag.mode === 'start') {
+        startMs = Math.min(Math.max(minStart, snapEdge(drag.startMs + delta, 'start')), drag.endMs - MIN_CUE_MS);
+      } else {
+        endMs = Math.max(Math.min(maxEnd, snapEdge(drag.endMs + delta, 'end')), drag.startMs + MIN_CUE_MS);
+      }
+      const cue = cues[drag.position];
+      if (startMs === cue.startMs && endMs === cue.endMs) return;
+      // 同一次拖动合并为一步撤销
+      onChange(updateCue(cues, drag.position, { startMs, endMs }), `drag-${drag.id}`);
+    },
+    [cues, pxPerSecond, silences, snap, waveform.durationMs, onChange]
+  );
+
+  const endDrag = useCallback(() => {
+    dragRef.current = null;
+  }, []);
+
+  const seekFromClick = useCallback(
+    (e: MouseEvent<HTMLDivElement>) => {
+      const rect = e.currentTarget.getBoundingClientRect();
+      onSeek(Math.round(((e.clientX - rect.left) / pxPerSecond) * 1000));
+    },
+    [pxPerSecond, onSeek]
+  );
+
+  return (
+    <div className={className}>
+      <div className="mb-2 flex items-center gap-3 text-xs text-white/60">
+        <span>缩放</span>
+        <select
+          className="rounded border border-white/20 bg-black/40 px-1 py-0.5"
+          value={pxPerSecond}
+          onChange={(e) => setPxPerSecond(Number(e.target.value))}
+        >
+          {ZOOM_LEVELS.map((level) => (
+            <option key={level} value={level}>
+              {level} px/秒
+            </option>
+          ))}
+        </select>
+        <label className="flex items-center gap-1">
+          <input type="checkbox" checked={snap} onChange={(e) => setSnap(e.target.checked)} />
+          吸附静音
+        </label>
+        <span>拖动字幕块平移，拖动两端调整开始 / 结束时间</span>
+      </div>
+      <div
+        ref={scrollRef}
+        className="overflow-x-auto rounded border border-white/10 bg-black/40"
+        onScroll={(e) => setScrollLeft(e.currentTarget.scrollLeft)}
+      >
+        <div className="relative" style={{ width: totalWidth, height: HEIGHT }} onClick={seekFromClick}>
+          <canvas ref={canvasRef} className="pointer-events-none sticky left-0 top-0 block" style={{ width: viewWidth, height: HEIGHT }} />
+          {cues.map((cue, position) => {
+            const left = toPx(cue.startMs);
+            const width = Math.max(2, toPx(cue.endMs - cue.startMs));
+            if (left + width < scrollLeft - viewWidth || left > scrollLeft + viewWidth * 2) return null;
+            return (
+              <div
+                key={`${position}-${cue.index}`}
+                className={`absolute top-2 cursor-grab touch-none select-none overflow-hidden rounded border px-1 text-[11px] leading-tight ${position === selected ? 'border-blue-300 bg-blue-400/40' : 'border-white/30 bg-white/15'}`}
+                style={{ left, width, height: HEIGHT - 16 }}
+                title={(cue.translation ?? cue.lines).join(' ')}
+                onPointerDown={(e) => beginDrag(e, position)}
+                onPointerMove={moveDrag}
+                onPointerUp={endDrag}
+                onPointerCancel={endDrag}
+                onClick={(e) => e.stopPropagation()}
+              >
+                <span className="pointer-events-none absolute inset-y-0 left-0 w-1 bg-white/30" />
+                <span className="pointer-events-none absolute inset-y-0 right-0 w-1 bg-white/30" />
+                {cue.lines.join(' ')}
+              </div>
+            );
+          })}
+          <div className="pointer-events-none absolute inset-y-0 w-px bg-red-400" style={{ left: toPx(currentMs) }} />
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,52 @@
+'use client'
+
+import { useCallback, useState } from 'react';
+import type { Cue } from '@/utils/subtitles';
+
+type History = { past: Cue[][]; present: Cue[] | null; future: Cue[][]; lastKey?: string };
+
+const MAX_HISTORY = 200;
+
+/**
+ * 带撤销 / 重做的 cue 编辑状态。present 为 null 表示尚未编辑过。
+ * 传入相同 coalesceKey 的连续修改（如同一输入框连续打字）合并为一步。
+ */
+export const useCueHistory = () => {
+  const [history, setHistory] = useState<History>({ past: [], present: null, future: [] });
+
+  const commit = useCallback((base: Cue[], next: Cue[], coalesceKey?: string) => {
+    setHistory((prev) => {
+      const current = prev.present ?? base;
+      if (coalesceKey && coalesceKey === prev.lastKey) {
+        return { ...prev, present: next };
+      }
+      return { past: [...prev.past, current].slice(-MAX_HISTORY), present: next, future: [], lastKey: coalesceKey };
+    });
+  }, []);
+
+  const undo = useCallback(() => {
+    setHistory((prev) => {
+      if (prev.past.length === 0 || !prev.present) return prev;
+      return { past: prev.past.slice(0, -1), present: prev.past[prev.past.length - 1], future: [prev.present, ...prev.future] };
+    });
+  }, []);
+
+  const redo = useCallback(() => {
+    setHistory((prev) => {
+      if (prev.future.length === 0 || !prev.present) return prev;
+      return { past: [...prev.past, prev.present], present: prev.future[0], future: prev.future.slice(1) };
+    });
+  }, []);
+
+  const reset = useCallback(() => setHistory({ past: [], present: null, future: [] }), []);
+
+  return {
+    cues: history.present,
+    commit,
+    undo,
+    redo,
+    reset,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
+  };
+};
@@ -0,0 +1,44 @@
+import { readSession } from "./session";
+import { type AccessResourceType, isAccessConfigured, verifyAccessToken } from "./token";
+
+export type AccessDenied = { error: string; status: number };
+
+/** 未配置令牌密钥时返回 500 错误信息；签发令牌的路由在写入任何对象前调用。 */
+export function checkAccessConfig(env: CloudflareEnv): AccessDenied | null {
+  return isAccessConfigured(env) ? null : { error: "缺少 ACCESS_TOKEN_SECRET 环境变量", status: 500 };
+}
+
+/** 令牌放在 `x-access-token` 请求头；`<audio src>` 之类无法带请求头的场景用 `?token=`。 */
+export function readAccessToken(request: Request): string | null {
+  return request.headers.get("x-access-token") ?? new URL(request.url).searchParams.get("token");
+}
+
+/** 校验通过返回 null，否则返回错误信息与状态码，由路由转成响应。 */
+export async function checkAccess(
+  request: Request,
+  env: CloudflareEnv,
+  type: AccessResourceType,
+  id: string,
+  token = readAccessToken(request)
+): Promise<AccessDenied | null> {
+  const misconfigured = checkAccessConfig(env);
+  if (misconfigured) return misconfigured;
+  const sessionId = readSession(request);
+  if (!sessionId || !token) return { error: "缺少访问令牌", status: 401 };
+  if (!(await verifyAccessToken(env, type, id, sessionId, token))) return { error: "访问令牌无效或已过期", status: 403 };
+  return null;
+}
+
+async function sha256(value: string): Promise<Uint8Array> {
+  return new Uint8Array(await crypto.subtle.digest("SHA-256", new TextEncoder().encode(value)));
+}
+
+/** 调试接口只在 `next dev` 下开放，部署后需带 `Authorization: Bearer <ADMIN_SECRET>`。 */
+export async function isAdminRequest(request: Request, env: CloudflareEnv): Promise<boolean> {
+  if (process.env.NODE_ENV === "development") return true;
+  const provided = request.headers.get("authorization")?.replace(/^Bearer\s+/i, "");
+  if (!env.ADMIN_SECRET || !provided) return false;
+  // 比较定长摘要且不提前返回，避免按耗时猜出前缀
+  const [expected, actual] = await Promise.all([sha256(env.ADMIN_SECRET), sha256(provided)]);
+  return expected.reduce((diff, byte, i) => diff | (byte ^ actual[i]), 0) === 0;
+}
@@ -0,0 +1,3 @@
+export * from "./session";
+export * from "./token";
+export * from "./guard";
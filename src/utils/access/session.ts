@@ -0,0 +1,32 @@
+/** 浏览器会话 id，存在 HttpOnly cookie 里；访问令牌与之绑定，令牌泄露到别的浏览器也用不了。 */
+export const SESSION_COOKIE = "madoka_session";
+
+/** 上传对象记录创建者标记（见 signUploadOwner），确认上传时据此签发令牌；不直接存会话 id。 */
+export const OWNER_META = "owner";
+export const OWNER_HEADER = `x-amz-meta-${OWNER_META}`;
+
+const SESSION_MAX_AGE_SEC = 7 * 24 * 60 * 60;
+const SESSION_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+export type Session = { id: string; isNew: boolean };
+
+export function readSession(request: Request): string | null {
+  for (const part of (request.headers.get("cookie") ?? "").split(";")) {
+    const [name, value] = part.trim().split("=");
+    if (name === SESSION_COOKIE) return SESSION_RE.test(value ?? "") ? value : null;
+  }
+  return null;
+}
+
+/** 创建资源的接口调用：沿用已有会话，没有就新建，响应时由 withSession 写回 cookie。 */
+export function resolveSession(request: Request): Session {
+  const id = readSession(request);
+  return id ? { id, isNew: false } : { id: crypto.randomUUID(), isNew: true };
+}
+
+export function withSession<T extends Response>(response: T, session: Session): T {
+  if (session.isNew) {
+    response.headers.append("set-cookie", `${SESSION_COOKIE}=${session.id}; Path=/; Max-Age=${SESSION_MAX_AGE_SEC}; HttpOnly; Secure; SameSite=Lax`);
+  }
+  return response;
+}
@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest";
+import { isAccessConfigured, signAccessToken, signUploadOwner, verifyAccessToken, verifyUploadOwner } from "./token";
+
+const env = { ACCESS_TOKEN_SECRET: "test-secret" } as CloudflareEnv;
+const SESSION = "11111111-2222-3333-4444-555555555555";
+const NOW = Date.parse("2025-01-01T00:00:00Z");
+
+describe("access tokens", () => {
+  it("verifies a token for the same resource and session", async () => {
+    const token = await signAccessToken(env, "audio", "uploads/a.mp3", SESSION, NOW);
+    expect(await verifyAccessToken(env, "audio", "uploads/a.mp3", SESSION, token, NOW + 1000)).toBe(true);
+  });
+
+  it("rejects a token for another resource, type, session or secret", async () => {
+    const token = await signAccessToken(env, "audio", "uploads/a.mp3", SESSION, NOW);
+    expect(await verifyAccessToken(env, "audio", "uploads/b.mp3", SESSION, token, NOW)).toBe(false);
+    expect(await verifyAccessToken(env, "asr", "uploads/a.mp3", SESSION, token, NOW)).toBe(false);
+    expect(await verifyAccessToken(env, "audio", "uploads/a.mp3", "other-session", token, NOW)).toBe(false);
+    const otherEnv = { ACCESS_TOKEN_SECRET: "other-secret" } as CloudflareEnv;
+    expect(await verifyAccessToken(otherEnv, "audio", "uploads/a.mp3", SESSION, token, NOW)).toBe(false);
+  });
+
+  it("expires after the resource's TTL", async () => {
+    const token = await signAccessToken(env, "audio", "uploads/a.mp3", SESSION, NOW);
+    const exp = Number(token.split(".")[0]) * 1000;
+    expect(exp - NOW).toBe(24 * 60 * 60 * 1000);
+    expect(await verifyAccessToken(env, "audio", "uploads/a.mp3", SESSION, token, exp - 1)).toBe(true);
+    expect(await verifyAccessToken(env, "audio", "uploads/a.mp3", SESSION, token, exp)).toBe(false);
+  });
+
+  it("rejects a tampered expiry or malformed tokens", async () => {
+    const token = await signAccessToken(env, "translate", "job", SESSION, NOW);
+    const [exp, signature] = token.split(".");
+    expect(await verifyAccessToken(env, "translate", "job", SESSION, `${Number(exp) + 3600}.${signature}`, NOW)).toBe(false);
+    for (const bad of ["", "abc", `${exp}.`, `${exp}.!!!`, `x.${signature}`]) {
+      expect(await verifyAccessToken(env, "translate", "job", SESSION, bad, NOW), bad).toBe(false);
+    }
+  });
+
+  it("is unconfigured without a secret outside next dev", () => {
+    expect(isAccessConfigured(env)).toBe(true);
+    expect(isAccessConfigured({} as CloudflareEnv)).toBe(false);
+  });
+});
+
+describe("upload owner tags", () => {
+  it("binds the tag to the key and session without revealing the session id", async () => {
+    const owner = await signUploadOwner(env, "uploads/a.mp3", SESSION);
+    expect(owner).not.toContain(SESSION);
+    expect(await verifyUploadOwner(env, "uploads/a.mp3", SESSION, owner)).toBe(true);
+    expect(await verifyUploadOwner(env, "uploads/b.mp3", SESSION, owner)).toBe(false);
+    expect(await verifyUploadOwner(env, "uploads/a.mp3", "other-session", owner)).toBe(false);
+    expect(await verifyUploadOwner(env, "uploads/a.mp3", SESSION, undefined)).toBe(false);
+    expect(await verifyUploadOwner(env, "uploads/a.mp3", SESSION, SESSION)).toBe(false);
+  });
+});
@@ -0,0 +1,87 @@
+import { AUDIO_TTL_MS, JOB_TTL_MS } from "@/utils/retention";
+
+/** `upload` 对应未完成的分片上传，id 为 uploadId。 */
+export type AccessResourceType = "audio" | "asr" | "translate" | "upload";
+
+/** 令牌有效期与对应资源的保留时间一致。 */
+const TOKEN_TTL_SEC: Record<AccessResourceType, number> = {
+  audio: AUDIO_TTL_MS / 1000,
+  asr: AUDIO_TTL_MS / 1000,
+  translate: JOB_TTL_MS / 1000,
+  // R2 在 7 天后清理未完成的分片上传，令牌覆盖整个续传窗口
+  upload: 7 * 24 * 60 * 60,
+};
+
+// 仅 `next dev` 下使用，部署时必须配置 ACCESS_TOKEN_SECRET
+const DEV_SECRET = "madoka-dev-access-secret";
+
+function accessSecret(env: CloudflareEnv): string {
+  if (env.ACCESS_TOKEN_SECRET) return env.ACCESS_TOKEN_SECRET;
+  if (process.env.NODE_ENV === "development") return DEV_SECRET;
+  throw new Error("请设置 ACCESS_TOKEN_SECRET");
+}
+
+/** 签发、校验令牌前先检查，未配置时在创建任何资源之前就报错。 */
+export function isAccessConfigured(env: CloudflareEnv): boolean {
+  return Boolean(env.ACCESS_TOKEN_SECRET) || process.env.NODE_ENV === "development";
+}
+
+function hmacKey(env: CloudflareEnv): Promise<CryptoKey> {
+  return crypto.subtle.importKey("raw", new TextEncoder().encode(accessSecret(env)), { name: "HMAC", hash: "SHA-256" }, false, ["sign", "verify"]);
+}
+
+function tokenPayload(type: AccessResourceType, id: string, sessionId: string, exp: number) {
+  return new TextEncoder().encode(`${type}:${id}:${sessionId}:${exp}`);
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64Url(value: string) {
+  try {
+    const binary = atob(value.replace(/-/g, "+").replace(/_/g, "/"));
+    return Uint8Array.from(binary, (c) => c.charCodeAt(0));
+  } catch {
+    return null;
+  }
+}
+
+/** 令牌形如 `<过期秒>.<签名>`，签名覆盖资源类型、资源 id、会话 id 与过期时间。 */
+export async function signAccessToken(env: CloudflareEnv, type: AccessResourceType, id: string, sessionId: string, now = Date.now()): Promise<string> {
+  const exp = Math.floor(now / 1000) + TOKEN_TTL_SEC[type];
+  const signature = await crypto.subtle.sign("HMAC", await hmacKey(env), tokenPayload(type, id, sessionId, exp));
+  return `${exp}.${toBase64Url(new Uint8Array(signature))}`;
+}
+
+export async function verifyAccessToken(
+  env: CloudflareEnv,
+  type: AccessResourceType,
+  id: string,
+  sessionId: string,
+  token: string,
+  now = Date.now()
+): Promise<boolean> {
+  const [rawExp, rawSignature] = token.split(".");
+  const exp = Number(rawExp);
+  const signature = fromBase64Url(rawSignature ?? "");
+  if (!Number.isInteger(exp) || exp * 1000 <= now || !signature) return false;
+  // subtle.verify 按常量时间比较签名
+  return crypto.subtle.verify("HMAC", await hmacKey(env), signature, tokenPayload(type, id, sessionId, exp));
+}
+
+function ownerPayload(key: string, sessionId: string) {
+  return new TextEncoder().encode(`owner:${key}:${sessionId}`);
+}
+
+/** 上传对象的创建者标记：对象 key 与会话 id 的 HMAC。会签进直传 URL 的请求头，不能暴露会话 id 本身。 */
+export async function signUploadOwner(env: CloudflareEnv, key: string, sessionId: string): Promise<string> {
+  const signature = await crypto.subtle.sign("HMAC", await hmacKey(env), ownerPayload(key, sessionId));
+  return toBase64Url(new Uint8Array(signature));
+}
+
+export async function verifyUploadOwner(env: CloudflareEnv, key: string, sessionId: string, owner: string | undefined): Promise<boolean> {
+  const signature = fromBase64Url(owner ?? "");
+  if (!signature) return false;
+  return crypto.subtle.verify("HMAC", await hmacKey(env), signature, ownerPayload(key, sessionId));
+}
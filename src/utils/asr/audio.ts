@@ -0,0 +1,38 @@
+import { isR2S3Configured, presignR2Url } from "@/utils/upload";
+import { AsrError } from "./errors";
+
+export function resolveAudioFormat(keyName: string, contentType?: string): string {
+  const ct = (contentType || "").toLowerCase();
+  if (ct.includes("wav")) return "wav";
+  if (ct.includes("mp3")) return "mp3";
+  if (ct.includes("ogg")) return "ogg";
+  const lowerKey = keyName.toLowerCase();
+  if (lowerKey.endsWith(".wav")) return "wav";
+  if (lowerKey.endsWith(".mp3")) return "mp3";
+  if (lowerKey.endsWith(".ogg") || lowerKey.endsWith(".oga")) return "ogg";
+  if (lowerKey.endsWith(".m4a") || lowerKey.endsWith(".mp4")) return "mp3";
+  return "wav";
+}
+
+export function toLanguageHints(lang?: string): string[] | undefined {
+  if (!lang) return undefined;
+  const base = lang.trim().toLowerCase().split(/[-_]/)[0];
+  if (!base) return undefined;
+  return [base];
+}
+
+/** 生成 R2 S3 预签名 GET URL，供需要自行拉取音频的供应商使用。 */
+export async function presignAudioUrl(env: CloudflareEnv, key: string, expiresSec = 3600): Promise<string> {
+  if (!isR2S3Configured(env)) {
+    throw new AsrError(
+      "缺少 R2 S3 凭证用于预签名",
+      500,
+      "请设置 R2_S3_ACCOUNT_ID / R2_S3_BUCKET / R2_S3_ACCESS_KEY_ID / R2_S3_SECRET_ACCESS_KEY"
+    );
+  }
+  try {
+    return await presignR2Url(env, key, { method: "GET", expiresSec });
+  } catch (e) {
+    throw new AsrError("生成 R2 预签名 URL 失败", 500, (e as Error).message);
+  }
+}
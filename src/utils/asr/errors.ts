@@ -0,0 +1,11 @@
+export class AsrError extends Error {
+  readonly status: number;
+  readonly detail?: unknown;
+
+  constructor(message: string, status = 500, detail?: unknown) {
+    super(message);
+    this.name = "AsrError";
+    this.status = status;
+    this.detail = detail;
+  }
+}
@@ -0,0 +1,38 @@
+import { sonioxProvider } from "./soniox";
+import { type AsrProvider, type AsrProviderId } from "./types";
+import { volcProvider } from "./volc";
+import { whisperProvider } from "./whisper";
+
+export type { AsrAudio, AsrPollResult, AsrProvider, AsrProviderId } from "./types";
+export { AsrError } from "./errors";
+
+export const ASR_PROVIDERS: Record<AsrProviderId, AsrProvider> = {
+  volc: volcProvider,
+  soniox: sonioxProvider,
+  whisper: whisperProvider,
+};
+
+export const DEFAULT_ASR_PROVIDER: AsrProviderId = "volc";
+
+export type AsrProviderInfo = { id: AsrProviderId; label: string; configured: boolean };
+
+export function isAsrProviderId(value: unknown): value is AsrProviderId {
+  return typeof value === "string" && value in ASR_PROVIDERS;
+}
+
+export function listAsrProviders(env: CloudflareEnv): AsrProviderInfo[] {
+  return Object.values(ASR_PROVIDERS).map((p) => ({ id: p.id, label: p.label, configured: p.configured(env) }));
+}
+
+/** 对外的 jobId 带上供应商前缀（`soniox:xxx`），查询时据此路由，服务端无需保存任务状态。 */
+export function encodeAsrJobId(provider: AsrProviderId, vendorJobId: string): string {
+  return `${provider}:${vendorJobId}`;
+}
+
+export function decodeAsrJobId(jobId: string): { provider: AsrProviderId; vendorJobId: string } | null {
+  const sep = jobId.indexOf(":");
+  if (sep < 0) return null;
+  const provider = jobId.slice(0, sep);
+  const vendorJobId = jobId.slice(sep + 1);
+  return isAsrProviderId(provider) && vendorJobId ? { provider, vendorJobId } : null;
+}
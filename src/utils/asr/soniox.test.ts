@@ -0,0 +1,46 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { segmentWords } from "@/utils/subtitles";
+import { sonioxProvider } from "./soniox";
+
+const env = { SONIOX_API_KEY: "test" } as CloudflareEnv;
+
+function mockTranscript(transcript: unknown) {
+  vi.stubGlobal(
+    "fetch",
+    vi.fn(async (url: string) =>
+      Response.json(url.endsWith("/transcript") ? transcript : { status: "completed" }),
+    ),
+  );
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("sonioxProvider.poll", () => {
+  it("merges sub-word tokens into whole words", async () => {
+    const texts = ["The", " beauti", "ful", " scene", " of", " the", " moun", "tains", " is", " won", "derful"];
+    mockTranscript({ tokens: texts.map((text, i) => ({ text, start_time_ms: i * 200, end_time_ms: i * 200 + 180 })) });
+    const result = await sonioxProvider.poll(env, "job");
+    if (result.status !== "completed" || !result.words) throw new Error("expected timed words");
+
+    expect(result.words.map((w) => w.text)).toEqual([
+      "The", " beautiful", " scene", " of", " the", " mountains", " is", " wonderful",
+    ]);
+    expect(result.words[1]).toMatchObject({ startMs: 200, endMs: 580 });
+    const lines = segmentWords(result.words, { maxCharsPerLine: 12, maxLines: 1 }).flatMap((c) => c.lines);
+    expect(lines).toEqual(["The", "beautiful", "scene of the", "mountains is", "wonderful"]);
+  });
+
+  it("keeps CJK characters as separate words", async () => {
+    mockTranscript({ tokens: ["山", "很", "美", "。"].map((text, i) => ({ text, start_time_ms: i * 200 })) });
+    const result = await sonioxProvider.poll(env, "job");
+    if (result.status !== "completed" || !result.words) throw new Error("expected timed words");
+    expect(result.words.map((w) => w.text)).toEqual(["山", "很", "美", "。"]);
+  });
+
+  it("fails instead of returning one untimed cue when there are no timestamps", async () => {
+    mockTranscript({ text: "no timings here" });
+    await expect(sonioxProvider.poll(env, "job")).resolves.toMatchObject({ status: "failed" });
+  });
+});
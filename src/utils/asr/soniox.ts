@@ -0,0 +1,166 @@
+import { type Cue, displayWidth, parseSrt, textToLines, type TimedWord } from "@/utils/subtitles";
+import { presignAudioUrl, resolveAudioFormat, toLanguageHints } from "./audio";
+import { AsrError } from "./errors";
+import { type AsrProvider } from "./types";
+
+const SONIOX_API = "https://api.soniox.com/v1/transcriptions";
+
+type SonioxToken = {
+  text: string;
+  start_time_ms?: number;
+  end_time_ms?: number;
+  is_final?: boolean;
+  language?: string;
+  /** 开启说话人分离时为 "1"、"2"…… */
+  speaker?: string;
+};
+
+function tokensToCues(tokens: SonioxToken[]): Cue[] {
+  // 合并为大致句子：以 2 秒的空隙、明显停顿或换人作为切分
+  const cues: Cue[] = [];
+  let currentStart: number | undefined;
+  let currentEnd: number | undefined;
+  let currentLanguage: string | undefined;
+  let currentSpeaker: string | undefined;
+  let currentText: string[] = [];
+
+  const flush = () => {
+    if (!currentText.length) return;
+    const s = currentStart ?? (currentEnd != null ? Math.max(0, currentEnd - 2000) : 0);
+    const e = currentEnd ?? (s + 2000);
+    cues.push({
+      index: cues.length + 1,
+      startMs: s,
+      endMs: e,
+      lines: textToLines(currentText.join("").trim()),
+      ...(currentLanguage ? { language: currentLanguage } : {}),
+      ...(currentSpeaker ? { speaker: `Speaker ${currentSpeaker}` } : {}),
+    });
+    currentText = [];
+    currentStart = undefined;
+    currentEnd = undefined;
+    currentLanguage = undefined;
+    currentSpeaker = undefined;
+  };
+
+  for (const t of tokens) {
+    const s = t.start_time_ms;
+    const e = t.end_time_ms ?? (s != null ? s + 400 : undefined);
+    if (currentEnd != null && s != null && s - currentEnd > 2000) {
+      flush();
+    }
+    if (t.speaker && currentSpeaker && t.speaker !== currentSpeaker) {
+      flush();
+    }
+    if (t.speaker) currentSpeaker = t.speaker;
+    if (currentStart == null && s != null) currentStart = s;
+    if (e != null) currentEnd = e;
+    if (!currentLanguage && t.language) currentLanguage = t.language;
+    currentText.push(t.text || "");
+  }
+  flush();
+  return cues;
+}
+
+function tokensToWords(tokens: SonioxToken[]): TimedWord[] | null {
+  // Soniox 的 token 是子词，自带前导空格的才是新词；不带空格的并入上一个词（中日韩字符各自成词）
+  const words: TimedWord[] = [];
+  for (const t of tokens) {
+    if (t.start_time_ms == null) return null;
+    const text = t.text || "";
+    const prev = words[words.length - 1];
+    const speaker = t.speaker ? `Speaker ${t.speaker}` : undefined;
+    if (
+      prev &&
+      text &&
+      !/^\s/.test(text) &&
+      prev.speaker === speaker &&
+      displayWidth(prev.text.slice(-1)) === 1 &&
+      displayWidth(text.charAt(0)) === 1
+    ) {
+      prev.text += text;
+      prev.endMs = Math.max(prev.endMs, t.end_time_ms ?? t.start_time_ms + 400);
+      continue;
+    }
+    words.push({
+      text,
+      startMs: t.start_time_ms,
+      endMs: t.end_time_ms ?? t.start_time_ms + 400,
+      ...(speaker ? { speaker } : {}),
+      ...(t.language ? { language: t.language } : {}),
+    });
+  }
+  return words;
+}
+
+function authHeaders(env: CloudflareEnv): Record<string, string> {
+  return { Authorization: `Bearer ${env.SONIOX_API_KEY}` };
+}
+
+export const sonioxProvider: AsrProvider = {
+  id: "soniox",
+  label: "Soniox",
+  requiredEnv: ["SONIOX_API_KEY"],
+  configured(env) {
+    return Boolean(env.SONIOX_API_KEY);
+  },
+  async submit(env, audio) {
+    const audioUrl = await presignAudioUrl(env, audio.key);
+    const hints = toLanguageHints(audio.language);
+    const payload = {
+      model: "stt-async-v3",
+      audio_url: audioUrl,
+      // 仅作为 hint，不强制固定语言
+      ...(hints ? { language_hints: hints } : {}),
+      enable_language_identification: true,
+      enable_speaker_diarization: true,
+      // 透传推断的音频格式，Soniox 不要求该字段，服务端会忽略
+      _client_meta: { format: resolveAudioFormat(audio.key, audio.contentType) },
+    };
+    const resp = await fetch(SONIOX_API, {
+      method: "POST",
+      headers: { ...authHeaders(env), "content-type": "application/json" },
+      body: JSON.stringify(payload),
+    });
+    if (!resp.ok) {
+      throw new AsrError("Soniox 提交失败", 500, (await resp.text().catch(() => "")) || String(resp.status));
+    }
+    const data = (await resp.json()) as { id?: string };
+    if (!data.id) throw new AsrError("Soniox 返回缺少 id");
+    return data.id;
+  },
+  async poll(env, vendorJobId) {
+    const base = `${SONIOX_API}/${encodeURIComponent(vendorJobId)}`;
+    const statusResp = await fetch(base, { headers: authHeaders(env) });
+    if (!statusResp.ok) {
+      throw new AsrError("Soniox 查询失败", 500, (await statusResp.text().catch(() => "")) || String(statusResp.status));
+    }
+    const statusData = (await statusResp.json()) as { status?: string; error_message?: string };
+    if (statusData.status === "error") return { status: "failed", message: statusData.error_message || "" };
+    if (statusData.status !== "completed") return { status: "processing" };
+
+    const trResp = await fetch(`${base}/transcript`, { headers: authHeaders(env) });
+    if (!trResp.ok) {
+      throw new AsrError("Soniox 获取结果失败", 500, (await trResp.text().catch(() => "")) || String(trResp.status));
+    }
+    const trData = (await trResp.json()) as { tokens?: SonioxToken[]; text?: string };
+    const tokens = trData.tokens ?? [];
+    const words = tokens.length > 0 ? tokensToWords(tokens) : null;
+    // 词级时间戳齐全时由路由统一切分，cues 按 token 空隙分句作为回退
+    if (words) return { status: "completed", cues: tokensToCues(tokens), words };
+
+    // 部分 token 缺时间戳：先尝试直接获取 SRT（若 API 支持）
+    try {
+      const srtResp = await fetch(`${base}/transcript?format=srt`, { headers: { ...authHeaders(env), Accept: "text/plain" } });
+      if (srtResp.ok) {
+        const srtText = await srtResp.text();
+        const cues = srtText && /-->/.test(srtText) ? parseSrt(srtText) : [];
+        if (cues.length > 0) return { status: "completed", cues };
+      }
+    } catch {}
+
+    if (tokens.some((t) => t.start_time_ms != null)) return { status: "completed", cues: tokensToCues(tokens) };
+    // 完全没有时间戳时不能把整段文本塞进一条字幕
+    return { status: "failed", message: "Soniox 结果缺少时间戳，无法生成字幕" };
+  },
+};
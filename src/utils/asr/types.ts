@@ -0,0 +1,24 @@
+import { type Cue, type TimedWord } from "@/utils/subtitles";
+
+export type AsrProviderId = "volc" | "soniox" | "whisper";
+
+/** 已上传到 AUDIO_BUCKET 的音频。 */
+export type AsrAudio = { key: string; contentType?: string; language?: string };
+
+export type AsrPollResult =
+  | { status: "processing" }
+  /** 有词级时间戳时带上 words，由路由统一切分；cues 为供应商自身的分句，作为回退。 */
+  | { status: "completed"; cues: Cue[]; words?: TimedWord[] }
+  | { status: "failed"; message: string };
+
+export type AsrProvider = {
+  id: AsrProviderId;
+  label: string;
+  /** 必需的环境变量名，用于报错提示。 */
+  requiredEnv: string[];
+  configured(env: CloudflareEnv): boolean;
+  /** 提交转写任务，返回供应商侧的任务 id；同步转写的供应商在这里完成转写并暂存结果。 */
+  submit(env: CloudflareEnv, audio: AsrAudio): Promise<string>;
+  /** 查询任务；完成时把供应商结果统一转换为 Cue / TimedWord。 */
+  poll(env: CloudflareEnv, vendorJobId: string): Promise<AsrPollResult>;
+};
@@ -0,0 +1,134 @@
+import { type Cue, spaceWords, textToLines, type TimedWord } from "@/utils/subtitles";
+import { presignAudioUrl, resolveAudioFormat } from "./audio";
+import { AsrError } from "./errors";
+import { type AsrProvider } from "./types";
+
+type V3Utterance = {
+  text: string;
+  start_time?: number;
+  end_time?: number;
+  words?: Array<{ text: string; start_time: number; end_time: number }>;
+  /** enable_speaker_info 开启时带说话人编号。 */
+  additions?: { speaker?: string };
+};
+
+type V3QueryResponse = {
+  result?: { text?: string; utterances?: V3Utterance[] };
+};
+
+// 火山引擎大模型录音文件识别的业务状态码
+const STATUS_OK = 20000000;
+const STATUS_PROCESSING = [20000001, 20000002];
+
+function buildV3Headers(env: CloudflareEnv, requestId: string): Record<string, string> {
+  return {
+    "content-type": "application/json",
+    "X-Api-App-Key": env.ASR_APP_ID,
+    "X-Api-Access-Key": env.ASR_ACCESS_TOKEN,
+    "X-Api-Resource-Id": env.ASR_RESOURCE_ID,
+    "X-Api-Request-Id": requestId,
+    "X-Api-Sequence": "-1",
+  };
+}
+
+function readStatusCode(headers: Headers): number {
+  const raw = headers.get("X-Api-Status-Code") ?? headers.get("x-api-status-code") ?? "";
+  const code = Number(raw);
+  return Number.isFinite(code) ? code : 0;
+}
+
+function readMessage(headers: Headers): string {
+  return headers.get("X-Api-Message") || headers.get("x-api-message") || "";
+}
+
+function utterancesToCues(utterances: V3Utterance[]): Cue[] {
+  return utterances.map((u, idx) => {
+    let start = u.start_time;
+    let end = u.end_time;
+    if ((start == null || end == null) && u.words && u.words.length > 0) {
+      const first = u.words[0];
+      const last = u.words[u.words.length - 1];
+      start = start ?? first.start_time;
+      end = end ?? last.end_time;
+    }
+    start = start ?? 0;
+    end = end ?? start + 2000;
+    const speaker = u.additions?.speaker;
+    return { index: idx + 1, startMs: start, endMs: end, lines: textToLines(u.text || ""), ...(speaker ? { speaker: `Speaker ${speaker}` } : {}) };
+  });
+}
+
+function utterancesToWords(utterances: V3Utterance[]): TimedWord[] {
+  return spaceWords(
+    utterances.flatMap((u) => {
+      const speaker = u.additions?.speaker;
+      return (u.words ?? [])
+        .filter((w) => w.start_time >= 0 && w.end_time >= w.start_time)
+        .map((w) => ({ text: w.text, startMs: w.start_time, endMs: w.end_time, ...(speaker ? { speaker: `Speaker ${speaker}` } : {}) }));
+    })
+  );
+}
+
+export const volcProvider: AsrProvider = {
+  id: "volc",
+  label: "火山云",
+  requiredEnv: ["ASR_APP_ID", "ASR_ACCESS_TOKEN", "ASR_RESOURCE_ID"],
+  configured(env) {
+    return Boolean(env.ASR_APP_ID && env.ASR_ACCESS_TOKEN && env.ASR_RESOURCE_ID);
+  },
+  async submit(env, audio) {
+    const audioUrl = await presignAudioUrl(env, audio.key);
+    // 火山以 X-Api-Request-Id 作为任务 id，查询时原样带回
+    const requestId = crypto.randomUUID();
+    const payload = {
+      user: { uid: "web_client" },
+      audio: { url: audioUrl, format: resolveAudioFormat(audio.key, audio.contentType), ...(audio.language ? { language: audio.language } : {}) },
+      request: {
+        model_name: "bigmodel",
+        ...(env.ASR_MODEL_VERSION ? { model_version: env.ASR_MODEL_VERSION } : {}),
+        enable_itn: true,
+        enable_punc: true,
+        show_utterances: true,
+        enable_speaker_info: true,
+      },
+    };
+    const resp = await fetch(`${env.ASR_BASE_URL.replace(/\/$/, "")}/submit`, {
+      method: "POST",
+      headers: buildV3Headers(env, requestId),
+      body: JSON.stringify(payload),
+    });
+    if (!resp.ok) {
+      throw new AsrError("ASR 提交失败", resp.status, await resp.text().catch(() => ""));
+    }
+    const apiStatus = readStatusCode(resp.headers);
+    // 读取并取消 body 避免 stalled
+    try { await resp.body?.cancel?.(); } catch {}
+    if (apiStatus !== STATUS_OK) {
+      throw new AsrError("ASR 提交失败", 400, { apiStatus, message: readMessage(resp.headers) });
+    }
+    return requestId;
+  },
+  async poll(env, vendorJobId) {
+    const resp = await fetch(`${env.ASR_BASE_URL.replace(/\/$/, "")}/query`, {
+      method: "POST",
+      headers: buildV3Headers(env, vendorJobId),
+      body: JSON.stringify({}),
+    });
+    if (!resp.ok) {
+      throw new AsrError("ASR 查询失败", 500, await resp.text().catch(() => String(resp.status)));
+    }
+    const status = readStatusCode(resp.headers);
+    if (status === STATUS_OK) {
+      const data = (await resp.json()) as V3QueryResponse;
+      const utt = data.result?.utterances ?? [];
+      const cues: Cue[] = utt.length > 0
+        ? utterancesToCues(utt)
+        : [{ index: 1, startMs: 0, endMs: 2000, lines: textToLines(data.result?.text || "") }];
+      const words = utterancesToWords(utt);
+      return { status: "completed", cues, ...(words.length > 0 ? { words } : {}) };
+    }
+    try { await resp.body?.cancel?.(); } catch {}
+    if (STATUS_PROCESSING.includes(status)) return { status: "processing" };
+    return { status: "failed", message: `${status} ${readMessage(resp.headers)}` };
+  },
+};
@@ -0,0 +1,161 @@
+import { expiryMetadata, JOB_TTL_MS } from "@/utils/retention";
+import { type Cue, spaceWords, textToLines, type TimedWord } from "@/utils/subtitles";
+import { toLanguageHints } from "./audio";
+import { AsrError } from "./errors";
+import { type AsrPollResult, type AsrProvider } from "./types";
+
+/** OpenAI 的 transcriptions 接口单文件上限 25 MB；超过时提前拒绝，而不是把大文件转发过去再失败。 */
+export const WHISPER_MAX_BYTES = 25 * 1024 * 1024;
+
+type WhisperSegment = { start: number; end: number; text: string };
+
+type WhisperVerboseResponse = {
+  text?: string;
+  language?: string;
+  duration?: number;
+  segments?: WhisperSegment[];
+  words?: Array<{ word: string; start: number; end: number }>;
+};
+
+// 转写是同步完成的，结果暂存在 R2，查询时直接读出
+function resultKey(id: string): string {
+  return `asr-results/${id}.json`;
+}
+
+function transcriptionsEndpoint(env: CloudflareEnv): string {
+  const base = (env.WHISPER_BASE_URL ?? "").replace(/\/$/, "");
+  return base.endsWith("/audio/transcriptions") ? base : `${base}/audio/transcriptions`;
+}
+
+function segmentsToCues(data: WhisperVerboseResponse): Cue[] {
+  const language = data.language || undefined;
+  const segments = (data.segments ?? []).filter((s) => s.text.trim());
+  if (segments.length === 0) {
+    const endMs = data.duration ? Math.round(data.duration * 1000) : 2000;
+    return [{ index: 1, startMs: 0, endMs, lines: textToLines((data.text ?? "").trim()) }];
+  }
+  return segments.map((s, i) => ({
+    index: i + 1,
+    startMs: Math.round(s.start * 1000),
+    endMs: Math.round(s.end * 1000),
+    lines: textToLines(s.text.trim()),
+    ...(language ? { language } : {}),
+  }));
+}
+
+function toWords(data: WhisperVerboseResponse): TimedWord[] {
+  const language = data.language || undefined;
+  return spaceWords(
+    (data.words ?? []).map((w) => ({
+      text: w.word,
+      startMs: Math.round(w.start * 1000),
+      endMs: Math.round(w.end * 1000),
+      ...(language ? { language } : {}),
+    }))
+  );
+}
+
+/**
+ * 手工拼 multipart/form-data，音频部分直接接上 R2 的流，不在 Worker 内存里缓冲整个文件。
+ * Workers 上用 FixedLengthStream 带上 content-length；`next dev`（Node）下没有该类，退回分块传输。
+ */
+function streamForm(fields: Array<[string, string]>, file: { filename: string; contentType: string; size: number; body: ReadableStream<Uint8Array> }) {
+  const boundary = `----madoka-${crypto.randomUUID()}`;
+  const encoder = new TextEncoder();
+  const head = encoder.encode(
+    fields.map(([name, value]) => `--${boundary}\r\nContent-Disposition: form-data; name="${name}"\r\n\r\n${value}\r\n`).join("") +
+      `--${boundary}\r\nContent-Disposition: form-data; name="file"; filename="${file.filename}"\r\nContent-Type: ${file.contentType}\r\n\r\n`
+  );
+  const tail = encoder.encode(`\r\n--${boundary}--\r\n`);
+  const reader = file.body.getReader();
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      controller.enqueue(head);
+    },
+    async pull(controller) {
+      const { done, value } = await reader.read();
+      if (!done) {
+        controller.enqueue(value);
+        return;
+      }
+      controller.enqueue(tail);
+      controller.close();
+    },
+    cancel(reason) {
+      return reader.cancel(reason);
+    },
+  });
+  const length = head.byteLength + file.size + tail.byteLength;
+  return {
+    body: typeof FixedLengthStream === "function" ? stream.pipeThrough(new FixedLengthStream(length)) : stream,
+    contentType: `multipart/form-data; boundary=${boundary}`,
+  };
+}
+
+/**
+ * 任意 OpenAI 兼容的 /v1/audio/transcriptions（OpenAI、whisper.cpp server、faster-whisper server 等）。
+ * 音频直接从 AUDIO_BUCKET 读出上传，不需要预签名 URL；本地调试时 WHISPER_BASE_URL 指向如 http://localhost:8080/v1。
+ */
+export const whisperProvider: AsrProvider = {
+  id: "whisper",
+  label: "Whisper（OpenAI 兼容）",
+  requiredEnv: ["WHISPER_BASE_URL"],
+  configured(env) {
+    return Boolean(env.WHISPER_BASE_URL);
+  },
+  async submit(env, audio) {
+    const head = await env.AUDIO_BUCKET.head(audio.key);
+    if (!head) throw new AsrError("音频对象不存在", 404);
+    if (head.size > WHISPER_MAX_BYTES) {
+      throw new AsrError(
+        "音频超出 Whisper 的文件大小限制",
+        413,
+        `${(head.size / (1024 * 1024)).toFixed(1)} MB，上限 ${WHISPER_MAX_BYTES / (1024 * 1024)} MB；请换用火山引擎或 Soniox`
+      );
+    }
+    const object = await env.AUDIO_BUCKET.get(audio.key);
+    if (!object) throw new AsrError("音频对象不存在", 404);
+    const fields: Array<[string, string]> = [
+      ["model", env.WHISPER_MODEL || "whisper-1"],
+      ["response_format", "verbose_json"],
+      ["timestamp_granularities[]", "segment"],
+      ["timestamp_granularities[]", "word"],
+    ];
+    const language = toLanguageHints(audio.language)?.[0];
+    if (language) fields.push(["language", language]);
+    const form = streamForm(fields, {
+      filename: audio.key.split("/").pop() || "audio",
+      contentType: audio.contentType || "application/octet-stream",
+      size: object.size,
+      body: object.body,
+    });
+
+    const resp = await fetch(transcriptionsEndpoint(env), {
+      method: "POST",
+      headers: {
+        "content-type": form.contentType,
+        ...(env.WHISPER_API_KEY ? { Authorization: `Bearer ${env.WHISPER_API_KEY}` } : {}),
+      },
+      body: form.body,
+      // Node 的 fetch 发送流式请求体时要求 duplex
+      duplex: "half",
+    } as RequestInit);
+    if (!resp.ok) {
+      throw new AsrError("Whisper 转写失败", 500, (await resp.text().catch(() => "")) || String(resp.status));
+    }
+    const data = (await resp.json()) as WhisperVerboseResponse;
+    const id = crypto.randomUUID();
+    const words = toWords(data);
+    const result: AsrPollResult = { status: "completed", cues: segmentsToCues(data), ...(words.length > 0 ? { words } : {}) };
+    await env.AUDIO_BUCKET.put(resultKey(id), JSON.stringify(result), {
+      httpMetadata: { contentType: "application/json" },
+      customMetadata: expiryMetadata(JOB_TTL_MS),
+    });
+    return id;
+  },
+  async poll(env, vendorJobId) {
+    const obj = await env.AUDIO_BUCKET.get(resultKey(vendorJobId));
+    if (!obj) return { status: "failed", message: "转写结果不存在" };
+    return JSON.parse(await obj.text()) as AsrPollResult;
+  },
+};
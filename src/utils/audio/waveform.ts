@@ -0,0 +1,102 @@
+/** 按固定时间粒度汇总的波形：peaks 为每格峰值，energy 为每格 RMS，取值都在 0–1。 */
+export type Waveform = {
+  binsPerSecond: number;
+  durationMs: number;
+  peaks: Float32Array;
+  energy: Float32Array;
+};
+
+export type SilenceRange = { startMs: number; endMs: number };
+
+export type SilenceOptions = {
+  /** 能量阈值在底噪与语音能量之间的位置，0 为底噪，1 为语音。 */
+  thresholdRatio: number;
+  minSilenceMs: number;
+};
+
+export const DEFAULT_SILENCE_OPTIONS: SilenceOptions = {
+  thresholdRatio: 0.15,
+  minSilenceMs: 200,
+};
+
+/** 抽取波形时使用的采样率与格式，与 computeWaveform 的输入对应。 */
+export const WAVEFORM_SAMPLE_RATE = 4000;
+export const WAVEFORM_FFMPEG_ARGS = ["-vn", "-ac", "1", "-ar", String(WAVEFORM_SAMPLE_RATE), "-f", "s16le"];
+
+/** 从单声道 16 位 PCM 计算波形。 */
+export function computeWaveform(pcm: Int16Array, sampleRate = WAVEFORM_SAMPLE_RATE, binsPerSecond = 100): Waveform {
+  const samplesPerBin = Math.max(1, Math.round(sampleRate / binsPerSecond));
+  const binCount = Math.ceil(pcm.length / samplesPerBin);
+  const peaks = new Float32Array(binCount);
+  const energy = new Float32Array(binCount);
+  for (let bin = 0; bin < binCount; bin++) {
+    const from = bin * samplesPerBin;
+    const to = Math.min(pcm.length, from + samplesPerBin);
+    let peak = 0;
+    let sum = 0;
+    for (let i = from; i < to; i++) {
+      const v = pcm[i] / 32768;
+      peak = Math.max(peak, Math.abs(v));
+      sum += v * v;
+    }
+    peaks[bin] = peak;
+    energy[bin] = Math.sqrt(sum / Math.max(1, to - from));
+  }
+  return {
+    binsPerSecond: sampleRate / samplesPerBin,
+    durationMs: Math.round((pcm.length / sampleRate) * 1000),
+    peaks,
+    energy,
+  };
+}
+
+function quantile(values: Float32Array, q: number): number {
+  if (values.length === 0) return 0;
+  const sorted = Float32Array.from(values).sort();
+  return sorted[Math.min(sorted.length - 1, Math.floor(q * sorted.length))];
+}
+
+/** 按能量找出静音区间，阈值随底噪自适应，背景音较大的素材也能用。 */
+export function detectSilences(waveform: Waveform, overrides: Partial<SilenceOptions> = {}): SilenceRange[] {
+  const options = { ...DEFAULT_SILENCE_OPTIONS, ...overrides };
+  const floor = quantile(waveform.energy, 0.1);
+  const speech = quantile(waveform.energy, 0.9);
+  const threshold = floor + (speech - floor) * options.thresholdRatio;
+  const msPerBin = 1000 / waveform.binsPerSecond;
+
+  const ranges: SilenceRange[] = [];
+  let start = -1;
+  const close = (end: number) => {
+    if (start >= 0 && (end - start) * msPerBin >= options.minSilenceMs) {
+      ranges.push({ startMs: Math.round(start * msPerBin), endMs: Math.min(waveform.durationMs, Math.round(end * msPerBin)) });
+    }
+    start = -1;
+  };
+  waveform.energy.forEach((value, bin) => {
+    if (value <= threshold) {
+      if (start < 0) start = bin;
+    } else {
+      close(bin);
+    }
+  });
+  close(waveform.energy.length);
+  return ranges;
+}
+
+/**
+ * 把时间点吸附到最近的静音边界：开始时间吸到静音结束（开口处），结束时间吸到静音开始（收声处）。
+ * 超过 maxDistanceMs 时保持原值。
+ */
+export function snapToSilence(ms: number, silences: SilenceRange[], edge: "start" | "end", maxDistanceMs = 200): number {
+  let best = ms;
+  let bestDistance = maxDistanceMs;
+  for (const range of silences) {
+    const candidate = edge === "start" ? range.endMs : range.startMs;
+    const distance = Math.abs(candidate - ms);
+    if (distance <= bestDistance) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  }
+  return best;
+}
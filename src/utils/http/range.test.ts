@@ -0,0 +1,67 @@
+import { describe, expect, it } from "vitest";
+import { ifRangeMatches, isNotModified, parseRange, type Validators } from "./range";
+
+const validators: Validators = { etag: '"abc"', lastModified: new Date("2025-01-01T00:00:00.500Z") };
+
+describe("parseRange", () => {
+  it("returns none without a header or for other units", () => {
+    expect(parseRange(null, 100)).toEqual({ type: "none" });
+    expect(parseRange("items=0-5", 100)).toEqual({ type: "none" });
+  });
+
+  it("parses closed, open-ended and suffix ranges", () => {
+    expect(parseRange("bytes=0-9", 100)).toEqual({ type: "range", range: { offset: 0, length: 10 } });
+    expect(parseRange("bytes=90-", 100)).toEqual({ type: "range", range: { offset: 90, length: 10 } });
+    expect(parseRange("bytes=-20", 100)).toEqual({ type: "range", range: { offset: 80, length: 20 } });
+    expect(parseRange("BYTES= 5 - 5", 100)).toEqual({ type: "range", range: { offset: 5, length: 1 } });
+  });
+
+  it("clamps an end or suffix past the object size", () => {
+    expect(parseRange("bytes=50-500", 100)).toEqual({ type: "range", range: { offset: 50, length: 50 } });
+    expect(parseRange("bytes=-500", 100)).toEqual({ type: "range", range: { offset: 0, length: 100 } });
+  });
+
+  it("rejects unsatisfiable, malformed and multi-part ranges", () => {
+    for (const header of ["bytes=100-", "bytes=10-5", "bytes=-0", "bytes=-", "bytes=abc", "bytes=0-1,5-6"]) {
+      expect(parseRange(header, 100), header).toEqual({ type: "invalid" });
+    }
+    expect(parseRange("bytes=-5", 0)).toEqual({ type: "invalid" });
+  });
+});
+
+describe("isNotModified", () => {
+  it("matches If-None-Match weakly, including lists and *", () => {
+    expect(isNotModified(new Headers({ "if-none-match": 'W/"abc"' }), validators)).toBe(true);
+    expect(isNotModified(new Headers({ "if-none-match": '"x", "abc"' }), validators)).toBe(true);
+    expect(isNotModified(new Headers({ "if-none-match": "*" }), validators)).toBe(true);
+    expect(isNotModified(new Headers({ "if-none-match": '"other"' }), validators)).toBe(false);
+  });
+
+  it("ignores If-Modified-Since when If-None-Match is present", () => {
+    const headers = new Headers({ "if-none-match": '"other"', "if-modified-since": "Wed, 01 Jan 2025 00:00:00 GMT" });
+    expect(isNotModified(headers, validators)).toBe(false);
+  });
+
+  it("compares If-Modified-Since at second precision", () => {
+    expect(isNotModified(new Headers({ "if-modified-since": "Wed, 01 Jan 2025 00:00:00 GMT" }), validators)).toBe(true);
+    expect(isNotModified(new Headers({ "if-modified-since": "Tue, 31 Dec 2024 23:59:59 GMT" }), validators)).toBe(false);
+    expect(isNotModified(new Headers({ "if-modified-since": "not a date" }), validators)).toBe(false);
+  });
+});
+
+describe("ifRangeMatches", () => {
+  it("applies the range without If-Range", () => {
+    expect(ifRangeMatches(new Headers(), validators)).toBe(true);
+  });
+
+  it("requires a strong ETag match", () => {
+    expect(ifRangeMatches(new Headers({ "if-range": '"abc"' }), validators)).toBe(true);
+    expect(ifRangeMatches(new Headers({ "if-range": 'W/"abc"' }), validators)).toBe(false);
+    expect(ifRangeMatches(new Headers({ "if-range": '"old"' }), validators)).toBe(false);
+  });
+
+  it("requires an exact Last-Modified date", () => {
+    expect(ifRangeMatches(new Headers({ "if-range": "Wed, 01 Jan 2025 00:00:00 GMT" }), validators)).toBe(true);
+    expect(ifRangeMatches(new Headers({ "if-range": "Wed, 01 Jan 2025 00:00:01 GMT" }), validators)).toBe(false);
+  });
+});
@@ -0,0 +1,66 @@
+export type ByteRange = { offset: number; length: number };
+
+/** none：没有或不支持的 Range，返回整个对象；invalid：格式错误、多段或超出范围，应返回 416。 */
+export type RangeRequest = { type: "none" } | { type: "range"; range: ByteRange } | { type: "invalid" };
+
+export type Validators = { etag?: string; lastModified: Date };
+
+const RANGE_RE = /^bytes=\s*(\d*)\s*-\s*(\d*)$/i;
+
+/** 解析单段 `Range: bytes=...`；多段（multipart/byteranges）不支持，一律视为 invalid。 */
+export function parseRange(header: string | null, size: number): RangeRequest {
+  if (!header) return { type: "none" };
+  const value = header.trim();
+  // 其他单位按规范忽略
+  if (!/^bytes=/i.test(value)) return { type: "none" };
+  const match = RANGE_RE.exec(value);
+  if (!match || (!match[1] && !match[2])) return { type: "invalid" };
+
+  if (!match[1]) {
+    // `bytes=-N`：最后 N 个字节
+    const suffix = Number(match[2]);
+    if (suffix === 0 || size === 0) return { type: "invalid" };
+    const length = Math.min(suffix, size);
+    return { type: "range", range: { offset: size - length, length } };
+  }
+  const start = Number(match[1]);
+  const end = match[2] ? Number(match[2]) : size - 1;
+  if (start >= size || end < start) return { type: "invalid" };
+  return { type: "range", range: { offset: start, length: Math.min(end, size - 1) - start + 1 } };
+}
+
+function etagList(header: string): string[] {
+  return header.split(",").map((tag) => tag.trim()).filter(Boolean);
+}
+
+/** 比较时忽略 W/ 前缀（弱比较），供 If-None-Match 使用。 */
+function weakMatch(a: string, b: string): boolean {
+  return a.replace(/^W\//, "") === b.replace(/^W\//, "");
+}
+
+/** HTTP 日期只精确到秒。 */
+function toHttpSeconds(date: Date): number {
+  return Math.floor(date.getTime() / 1000);
+}
+
+/** 按 If-None-Match，其次 If-Modified-Since 判断能否返回 304；有 If-None-Match 时忽略后者。 */
+export function isNotModified(headers: Headers, validators: Validators): boolean {
+  const ifNoneMatch = headers.get("if-none-match");
+  if (ifNoneMatch) {
+    const { etag } = validators;
+    return etagList(ifNoneMatch).some((tag) => tag === "*" || (etag !== undefined && weakMatch(tag, etag)));
+  }
+  const since = Date.parse(headers.get("if-modified-since") ?? "");
+  return Number.isFinite(since) && toHttpSeconds(validators.lastModified) <= Math.floor(since / 1000);
+}
+
+/** If-Range 不匹配时（对象已变化）忽略 Range，返回完整内容；ETag 需强匹配。 */
+export function ifRangeMatches(headers: Headers, validators: Validators): boolean {
+  const ifRange = headers.get("if-range")?.trim();
+  if (!ifRange) return true;
+  if (ifRange.startsWith('"') || ifRange.startsWith("W/")) {
+    return !ifRange.startsWith("W/") && ifRange === validators.etag;
+  }
+  const date = Date.parse(ifRange);
+  return Number.isFinite(date) && toHttpSeconds(validators.lastModified) === Math.floor(date / 1000);
+}
@@ -0,0 +1,192 @@
+export type MediaStreamType = 'video' | 'audio' | 'subtitle' | 'data' | 'attachment';
+
+export type MediaStreamInfo = {
+  /** 文件内的全局流序号（`Stream #0:N`）。 */
+  streamIndex: number;
+  /** 在同类流中的序号，对应 `-map 0:v:N` / `0:a:N` / `0:s:N`。 */
+  typeIndex: number;
+  type: MediaStreamType;
+  codec: string;
+  /** 编码描述原文，如 `h264 (High)`。 */
+  codecDetail: string;
+  language?: string;
+  title?: string;
+  isDefault: boolean;
+  forced: boolean;
+  bitrateKbps?: number;
+  width?: number;
+  height?: number;
+  frameRate?: number;
+  sampleRate?: number;
+  channelLayout?: string;
+  tags: Record<string, string>;
+};
+
+export type MediaChapter = {
+  startSec: number;
+  endSec: number;
+  title?: string;
+};
+
+export type MediaProbe = {
+  /** 封装格式，如 `matroska,webm`。 */
+  container?: string;
+  durationSec?: number;
+  bitrateKbps?: number;
+  /** 容器级 title 标签。 */
+  title?: string;
+  tags: Record<string, string>;
+  streams: MediaStreamInfo[];
+  chapters: MediaChapter[];
+};
+
+export type SubtitleStreamInfo = {
+  /** 在字幕流中的序号，对应 `-map 0:s:N`。 */
+  index: number;
+  /** 文件内的全局流序号（`Stream #0:N`）。 */
+  streamIndex: number;
+  codec: string;
+  language?: string;
+  title?: string;
+  isDefault: boolean;
+  forced: boolean;
+  /** 图形字幕（PGS / VobSub 等）无法转成文本。 */
+  bitmap: boolean;
+};
+
+const BITMAP_SUBTITLE_CODECS = new Set(['hdmv_pgs_subtitle', 'pgssub', 'dvd_subtitle', 'dvdsub', 'dvb_subtitle', 'dvbsub', 'xsub', 'dvb_teletext']);
+
+const INPUT_RE = /^Input #0, (.+?), from /;
+const DURATION_RE = /^\s*Duration: (N\/A|\d+:\d{2}:\d{2}(?:\.\d+)?)(?:, start: [-\d.]+)?, bitrate: (N\/A|\d+) kb\/s/;
+const CHAPTER_RE = /^\s*Chapter #0:\d+: start ([\d.]+), end ([\d.]+)/;
+const STREAM_RE = /^\s*Stream #0:(\d+)(?:\[0x[0-9a-f]+\])?(?:\((\w+)\))?: (\w+): (.+)$/i;
+const TAG_RE = /^\s+([\w-]+)\s*: (.*)$/;
+
+const parseClock = (value: string) =>
+  value.split(':').reduce((acc, part) => acc * 60 + parseFloat(part), 0);
+
+const toStreamType = (raw: string): MediaStreamType => {
+  const type = raw.toLowerCase();
+  return type === 'video' || type === 'audio' || type === 'subtitle' || type === 'attachment' ? type : 'data';
+};
+
+const parseStream = (match: RegExpMatchArray, typeCounts: Map<MediaStreamType, number>): MediaStreamInfo => {
+  const type = toStreamType(match[3]);
+  const detail = match[4];
+  const typeIndex = typeCounts.get(type) ?? 0;
+  typeCounts.set(type, typeIndex + 1);
+  const codecDetail = detail.split(', ')[0].trim();
+  const number = (re: RegExp) => {
+    const found = detail.match(re);
+    return found ? Number(found[1]) : undefined;
+  };
+  const resolution = detail.match(/, (\d{2,5})x(\d{2,5})/);
+  const channelLayout = detail.match(/ Hz, ([^,]+)/);
+  const language = match[2] && match[2] !== 'und' ? match[2] : undefined;
+  return {
+    streamIndex: Number(match[1]),
+    typeIndex,
+    type,
+    codec: codecDetail.split(' ')[0].toLowerCase(),
+    codecDetail,
+    ...(language ? { language } : {}),
+    isDefault: /\(default\)/.test(detail),
+    forced: /\(forced\)/.test(detail),
+    ...(number(/(\d+) kb\/s/) !== undefined ? { bitrateKbps: number(/(\d+) kb\/s/) } : {}),
+    ...(resolution ? { width: Number(resolution[1]), height: Number(resolution[2]) } : {}),
+    ...(number(/([\d.]+) fps/) !== undefined ? { frameRate: number(/([\d.]+) fps/) } : {}),
+    ...(number(/(\d+) Hz/) !== undefined ? { sampleRate: number(/(\d+) Hz/) } : {}),
+    ...(channelLayout ? { channelLayout: channelLayout[1].trim() } : {}),
+    tags: {},
+  };
+};
+
+/**
+ * 解析 `ffmpeg -i` 输出的容器信息、全部流与章节。
+ * Metadata 键值按所在位置归到容器、章节或流上，键名统一小写。
+ */
+export const probeMedia = (output: string): MediaProbe => {
+  const probe: MediaProbe = { tags: {}, streams: [], chapters: [] };
+  const typeCounts = new Map<MediaStreamType, number>();
+  let target: Record<string, string> | null = null;
+  let chapter: MediaChapter | null = null;
+
+  for (const line of output.split('\n')) {
+    const input = line.match(INPUT_RE);
+    if (input) {
+      probe.container = input[1];
+      target = probe.tags;
+      continue;
+    }
+    const duration = line.match(DURATION_RE);
+    if (duration) {
+      if (duration[1] !== 'N/A') probe.durationSec = parseClock(duration[1]);
+      if (duration[2] !== 'N/A') probe.bitrateKbps = Number(duration[2]);
+      target = null;
+      continue;
+    }
+    const chapterMatch = line.match(CHAPTER_RE);
+    if (chapterMatch) {
+      chapter = { startSec: Number(chapterMatch[1]), endSec: Number(chapterMatch[2]) };
+      probe.chapters.push(chapter);
+      target = {};
+      continue;
+    }
+    const streamMatch = line.match(STREAM_RE);
+    if (streamMatch) {
+      const stream = parseStream(streamMatch, typeCounts);
+      probe.streams.push(stream);
+      chapter = null;
+      target = stream.tags;
+      continue;
+    }
+    // 没有缩进的行（如 `At least one output file must be specified`）结束当前块
+    if (!/^\s/.test(line)) {
+      target = null;
+      continue;
+    }
+    const tag = line.match(TAG_RE);
+    if (!tag || !target) continue;
+    const key = tag[1].toLowerCase();
+    const value = tag[2].trim();
+    if (chapter) {
+      if (key === 'title') chapter.title = value;
+      continue;
+    }
+    target[key] = value;
+  }
+
+  for (const item of probe.streams) {
+    if (item.tags.title) item.title = item.tags.title;
+    // MKV 的流码率只出现在 BPS 标签里
+    if (item.bitrateKbps === undefined && Number(item.tags.bps) > 0) item.bitrateKbps = Math.round(Number(item.tags.bps) / 1000);
+  }
+  if (probe.tags.title) probe.title = probe.tags.title;
+  return probe;
+};
+
+export const toSubtitleStreams = (probe: MediaProbe): SubtitleStreamInfo[] =>
+  probe.streams
+    .filter((stream) => stream.type === 'subtitle')
+    .map((stream) => ({
+      index: stream.typeIndex,
+      streamIndex: stream.streamIndex,
+      codec: stream.codec,
+      ...(stream.language ? { language: stream.language } : {}),
+      ...(stream.title ? { title: stream.title } : {}),
+      isDefault: stream.isDefault,
+      forced: stream.forced,
+      bitmap: BITMAP_SUBTITLE_CODECS.has(stream.codec),
+    }));
+
+/** 未手动选择时优先默认轨，其次第一条文本轨；全是图形字幕时返回 undefined。 */
+export const pickSubtitleStream = (streams: SubtitleStreamInfo[]) => {
+  const text = streams.filter((stream) => !stream.bitmap);
+  return text.find((stream) => stream.isDefault && !stream.forced) ?? text.find((stream) => !stream.forced) ?? text[0];
+};
+
+/** 下载文件名优先用容器 title 标签，其次是本地文件名；去掉文件系统不允许的字符。 */
+export const mediaFileName = (probe: MediaProbe | null, fallback: string) => {
+  const name = (probe?.title ?? '').replace(/[\\/:*?"<>|\u0000-\u001f]+/g, '_').trim();
+  return name || fallback;
+};
@@ -0,0 +1,51 @@
+import { isUploadKey } from "@/utils/upload";
+import { AUDIO_TTL_MS, isExpired, JOB_TTL_MS } from "./ttl";
+
+type SweepTarget = {
+  prefix: string;
+  fallbackTtlMs: number;
+  /** 根目录下还有其他对象，只清理上传生成的 `<uuid>.<ext>`。 */
+  accept?: (key: string) => boolean;
+};
+
+// 术语表（glossaries/）是用户数据，不在清理范围内
+const SWEEP_TARGETS: SweepTarget[] = [
+  { prefix: "", fallbackTtlMs: AUDIO_TTL_MS, accept: isUploadKey },
+  { prefix: "translate-jobs/", fallbackTtlMs: JOB_TTL_MS },
+  { prefix: "asr-results/", fallbackTtlMs: JOB_TTL_MS },
+];
+
+// R2 单次批量删除最多 1000 个 key
+const DELETE_BATCH = 1000;
+
+export type SweepResult = { scanned: number; deleted: number };
+
+/** 删除已过期的音频、翻译任务与转写结果，由 Worker 的 cron 触发。 */
+export async function sweepExpired(bucket: R2Bucket, now = Date.now()): Promise<SweepResult> {
+  const result: SweepResult = { scanned: 0, deleted: 0 };
+  for (const target of SWEEP_TARGETS) {
+    const expired: string[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await bucket.list({
+        prefix: target.prefix,
+        // 根目录只列一层，不深入其他前缀
+        delimiter: target.prefix ? undefined : "/",
+        cursor,
+        include: ["customMetadata"],
+      });
+      for (const object of page.objects) {
+        if (target.accept && !target.accept(object.key)) continue;
+        result.scanned++;
+        if (isExpired(object, target.fallbackTtlMs, now)) expired.push(object.key);
+      }
+      cursor = page.truncated ? page.cursor : undefined;
+    } while (cursor);
+
+    for (let i = 0; i < expired.length; i += DELETE_BATCH) {
+      await bucket.delete(expired.slice(i, i + DELETE_BATCH));
+    }
+    result.deleted += expired.length;
+  }
+  return result;
+}
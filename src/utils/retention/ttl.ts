@@ -0,0 +1,23 @@
+/** 对象过期时间（毫秒时间戳）写在 R2 自定义元数据里，清理任务据此删除。 */
+export const EXPIRES_AT_META = "expires-at";
+export const EXPIRES_AT_HEADER = `x-amz-meta-${EXPIRES_AT_META}`;
+
+/** 音频在 ASR 完成后即删除；兜底保留一天，覆盖中途放弃或识别失败的情况。 */
+export const AUDIO_TTL_MS = 24 * 60 * 60 * 1000;
+
+/** 翻译任务与转写结果，每次写入都会顺延。 */
+export const JOB_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+export function expiresAt(ttlMs: number, now = Date.now()): string {
+  return String(now + ttlMs);
+}
+
+export function expiryMetadata(ttlMs: number, now = Date.now()): Record<string, string> {
+  return { [EXPIRES_AT_META]: expiresAt(ttlMs, now) };
+}
+
+/** 没有过期元数据的旧对象按上传时间加默认 TTL 计算。 */
+export function isExpired(object: R2Object, fallbackTtlMs: number, now = Date.now()): boolean {
+  const expires = Number(object.customMetadata?.[EXPIRES_AT_META]);
+  return now >= (expires > 0 ? expires : object.uploaded.getTime() + fallbackTtlMs);
+}
@@ -0,0 +1,114 @@
+import { describe, expect, it } from "vitest";
+import { ASS_STYLE_PRESETS, DEFAULT_ASS_STYLE, formatAssTime, parseAss, parseAssTime, serializeAss } from "./ass";
+import { type Cue } from "./cue";
+import { SubtitleParseError } from "./errors";
+
+const HEADER = `[Script Info]
+PlayResX: 1280
+PlayResY: 720
+
+[V4+ Styles]
+Format: Name, Fontname, Fontsize, PrimaryColour, Bold, Italic, Outline, Alignment
+Style: Main,Arial,50,&H0000FFFF,-1,0,2.5,8
+
+[Events]
+Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text
+`;
+
+function parseError(input: string): SubtitleParseError {
+  try {
+    parseAss(input);
+  } catch (e) {
+    if (e instanceof SubtitleParseError) return e;
+    throw e;
+  }
+  throw new Error("expected parseAss to throw");
+}
+
+describe("ASS timestamps", () => {
+  it("formats centiseconds with an unpadded hour", () => {
+    expect(formatAssTime(0)).toBe("0:00:00.00");
+    expect(formatAssTime(3723456)).toBe("1:02:03.46");
+    expect(formatAssTime(-50)).toBe("0:00:00.00");
+  });
+
+  it("parses centiseconds, milliseconds and comma separators", () => {
+    expect(parseAssTime("1:02:03.46")).toBe(3723460);
+    expect(parseAssTime("0:00:01,5")).toBe(1500);
+    expect(parseAssTime("0:00:01.234")).toBe(1234);
+    expect(parseAssTime("01:02")).toBeNull();
+  });
+});
+
+describe("parseAss", () => {
+  it("reads styles, play resolution, speakers and event styles", () => {
+    const doc = parseAss(`${HEADER}Dialogue: 0,0:00:01.00,0:00:02.50,*Main,Alice,0,0,0,,Hello, world\\Nsecond line\n`);
+    expect(doc.playResX).toBe(1280);
+    expect(doc.playResY).toBe(720);
+    expect(doc.styles).toEqual([
+      { ...DEFAULT_ASS_STYLE, name: "Main", fontName: "Arial", fontSize: 50, primaryColor: "#FFFF00", bold: true, outline: 2.5, alignment: 8 },
+    ]);
+    expect(doc.cues).toEqual([
+      { index: 1, startMs: 1000, endMs: 2500, lines: ["Hello, world", "second line"], style: "Main", speaker: "Alice" },
+    ]);
+  });
+
+  it("strips override tags, skips comments and drawings, and sorts by start", () => {
+    const doc = parseAss(
+      `${HEADER}Dialogue: 0,0:00:05.00,0:00:06.00,Main,,0,0,0,,{\\i1}later{\\i0}\\hnow
+Comment: 0,0:00:00.00,0:00:01.00,Main,,0,0,0,,ignored
+Dialogue: 0,0:00:00.00,0:00:09.00,Main,,0,0,0,,{\\p1}m 0 0 l 10 10{\\p0}
+Dialogue: 0,0:00:03.00,0:00:04.00,Main,,0,0,0,,first
+`,
+    );
+    expect(doc.cues.map((c) => [c.index, c.lines])).toEqual([
+      [1, ["first"]],
+      [2, ["later now"]],
+    ]);
+  });
+
+  it("reports the line of a dialogue without a Format or with a bad time", () => {
+    expect(parseError("[Events]\nDialogue: 0,0:00:00.00,0:00:01.00,Main,,0,0,0,,x").line).toBe(2);
+    expect(parseError(`${HEADER}Dialogue: 0,soon,0:00:01.00,Main,,0,0,0,,x\n`).line).toBe(11);
+  });
+});
+
+describe("serializeAss", () => {
+  const cues: Cue[] = [
+    { index: 1, startMs: 1000, endMs: 2000, lines: ["Hi", "there"], speaker: "Bob, Jr" },
+    { index: 2, startMs: 2000, endMs: 3000, lines: ["x"], translation: ["叉"], style: "Missing" },
+  ];
+
+  it("round-trips cues and styles through parseAss", () => {
+    const style = { ...DEFAULT_ASS_STYLE, name: "Main", primaryColor: "#12AB34", italic: true, marginV: 12 };
+    const doc = parseAss(serializeAss(cues.slice(0, 1), { styles: [style], playResX: 1280, playResY: 720 }));
+    expect(doc.styles).toEqual([style]);
+    expect(doc.cues).toEqual([{ index: 1, startMs: 1000, endMs: 2000, lines: ["Hi", "there"], style: "Main", speaker: "Bob  Jr" }]);
+    expect(doc).toMatchObject({ playResX: 1280, playResY: 720 });
+  });
+
+  it("falls back to the first style and emits translations", () => {
+    const text = serializeAss(cues, { styles: [] });
+    expect(text).toContain("Dialogue: 0,0:00:02.00,0:00:03.00,Default,,0,0,0,,叉");
+  });
+
+  it("derives a Secondary style for bilingual output", () => {
+    const text = serializeAss(cues, { styles: [DEFAULT_ASS_STYLE], bilingual: true });
+    expect(text).toMatch(/^Style: Secondary,Noto Sans CJK SC,34,/m);
+    expect(text).toContain("{\\rSecondary}x\\N{\\rDefault}叉");
+    expect(serializeAss(cues, { styles: ASS_STYLE_PRESETS.bilingual.styles, bilingual: true }).match(/^Style: Secondary/gm)).toHaveLength(1);
+  });
+
+  it("adds one coloured style per speaker when asked", () => {
+    const text = serializeAss(
+      [
+        { index: 1, startMs: 0, endMs: 1000, lines: ["a"], speaker: "A" },
+        { index: 2, startMs: 1000, endMs: 2000, lines: ["b"], speaker: "B" },
+      ],
+      { styles: [DEFAULT_ASS_STYLE], speakerStyles: true },
+    );
+    expect(text).toMatch(/^Style: Speaker 1,.*,&H00FFFFFF,/m);
+    expect(text).toMatch(/^Style: Speaker 2,.*,&H0066E0FF,/m);
+    expect(text).toContain("Dialogue: 0,0:00:01.00,0:00:02.00,Speaker 2,B,");
+  });
+});
@@ -0,0 +1,326 @@
+import { type Cue, renumberCues } from "./cue";
+import { SubtitleParseError } from "./errors";
+import { listSpeakers } from "./speakers";
+
+/** 颜色均为 `#RRGGBB`，尺寸均按 PlayResY 坐标系计算。 */
+export type AssStyle = {
+  name: string;
+  fontName: string;
+  fontSize: number;
+  primaryColor: string;
+  outlineColor: string;
+  backColor: string;
+  bold: boolean;
+  italic: boolean;
+  outline: number;
+  shadow: number;
+  /** 小键盘方位：1-3 底部，4-6 中部，7-9 顶部。 */
+  alignment: number;
+  marginL: number;
+  marginR: number;
+  marginV: number;
+};
+
+export type AssOptions = {
+  title?: string;
+  playResX?: number;
+  playResY?: number;
+  /** 第一个样式作为默认样式；cue.style 指向不存在的样式时也回退到它。 */
+  styles: AssStyle[];
+  /** 双语模式下原文用名为 Secondary 的样式（缺省时按默认样式缩小生成），译文用 cue 自身样式。 */
+  bilingual?: boolean;
+  /** 为每个说话人生成一个换色的样式（基于默认样式），cue 自带 style 时不覆盖。 */
+  speakerStyles?: boolean;
+};
+
+export type AssPresetKey = "anime" | "documentary" | "bilingual";
+
+export const DEFAULT_ASS_STYLE: AssStyle = {
+  name: "Default",
+  fontName: "Noto Sans CJK SC",
+  fontSize: 48,
+  primaryColor: "#FFFFFF",
+  outlineColor: "#000000",
+  backColor: "#000000",
+  bold: false,
+  italic: false,
+  outline: 2,
+  shadow: 0,
+  alignment: 2,
+  marginL: 40,
+  marginR: 40,
+  marginV: 40,
+};
+
+export const ASS_STYLE_PRESETS: Record<AssPresetKey, { label: string; styles: AssStyle[] }> = {
+  anime: {
+    label: "番剧字幕组",
+    styles: [
+      { ...DEFAULT_ASS_STYLE, fontName: "Source Han Sans SC", fontSize: 64, bold: true, outline: 3.5, shadow: 1, outlineColor: "#1A1A1A", marginV: 36 },
+    ],
+  },
+  documentary: {
+    label: "纪录片",
+    styles: [
+      { ...DEFAULT_ASS_STYLE, fontName: "Noto Serif CJK SC", fontSize: 52, outline: 1, shadow: 2, primaryColor: "#F5F5F5", marginV: 60 },
+    ],
+  },
+  bilingual: {
+    label: "双语",
+    styles: [
+      { ...DEFAULT_ASS_STYLE, fontSize: 56, outline: 2.5, marginV: 24 },
+      { ...DEFAULT_ASS_STYLE, name: "Secondary", fontSize: 40, outline: 2, primaryColor: "#E0E0E0", marginV: 24 },
+    ],
+  },
+};
+
+/** `#RRGGBB` → ASS 的 `&HAABBGGRR`。 */
+function toAssColor(hex: string, alpha = 0): string {
+  const m = hex.trim().match(/^#?([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i);
+  const [r, g, b] = m ? [m[1], m[2], m[3]] : ["FF", "FF", "FF"];
+  const a = Math.max(0, Math.min(255, Math.round(alpha))).toString(16).padStart(2, "0");
+  return `&H${a}${b}${g}${r}`.toUpperCase();
+}
+
+/** ASS 的 `&HAABBGGRR`（或 `&HBBGGRR`）→ `#RRGGBB`，透明度丢弃。 */
+function fromAssColor(value: string | undefined, fallback: string): string {
+  const m = value?.trim().match(/^&H([0-9a-f]{2})?([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})&?$/i);
+  return m ? `#${m[4]}${m[3]}${m[2]}`.toUpperCase() : fallback;
+}
+
+/** 毫秒 → `H:MM:SS.cc`。 */
+export function formatAssTime(ms: number): string {
+  const totalCs = Math.max(0, Math.round(ms / 10));
+  const hours = Math.floor(totalCs / 360000);
+  const minutes = Math.floor((totalCs % 360000) / 6000).toString().padStart(2, "0");
+  const seconds = Math.floor((totalCs % 6000) / 100).toString().padStart(2, "0");
+  const cs = (totalCs % 100).toString().padStart(2, "0");
+  return `${hours}:${minutes}:${seconds}.${cs}`;
+}
+
+/** `H:MM:SS.cc` → 毫秒，格式不对时返回 null。 */
+export function parseAssTime(raw: string): number | null {
+  const m = raw.trim().match(/^(\d+):(\d{1,2}):(\d{1,2})(?:[.,](\d{1,3}))?$/);
+  if (!m) return null;
+  const fraction = m[4] ? Number(m[4].padEnd(3, "0")) : 0;
+  return ((Number(m[1]) * 60 + Number(m[2])) * 60 + Number(m[3])) * 1000 + fraction;
+}
+
+function escapeAssText(lines: string[]): string {
+  return lines
+    .map((line) => line.replace(/\\/g, "\\\\").replace(/\{/g, "\\{").replace(/\}/g, "\\}"))
+    .join("\\N");
+}
+
+function styleLine(style: AssStyle): string {
+  const flag = (v: boolean) => (v ? "-1" : "0");
+  return `Style: ${[
+    style.name,
+    style.fontName,
+    style.fontSize,
+    toAssColor(style.primaryColor),
+    toAssColor(style.primaryColor),
+    toAssColor(style.outlineColor),
+    toAssColor(style.backColor, 0x80),
+    flag(style.bold),
+    flag(style.italic),
+    "0",
+    "0",
+    "100",
+    "100",
+    "0",
+    "0",
+    "1",
+    style.outline,
+    style.shadow,
+    style.alignment,
+    style.marginL,
+    style.marginR,
+    style.marginV,
+    "1",
+  ].join(",")}`;
+}
+
+function deriveSecondaryStyle(base: AssStyle): AssStyle {
+  return {
+    ...base,
+    name: "Secondary",
+    fontSize: Math.round(base.fontSize * 0.7),
+    outline: Math.max(1, base.outline * 0.7),
+  };
+}
+
+// 说话人依次轮换的字色
+const SPEAKER_COLORS = ["#FFFFFF", "#FFE066", "#8CE99A", "#74C0FC", "#FFA8A8", "#E599F7"];
+
+function deriveSpeakerStyles(base: AssStyle, speakers: string[]): Map<string, AssStyle> {
+  return new Map(
+    speakers.map((speaker, i) => [
+      speaker,
+      // 样式名里不能有逗号
+      { ...base, name: `Speaker ${i + 1}`, primaryColor: SPEAKER_COLORS[i % SPEAKER_COLORS.length] },
+    ])
+  );
+}
+
+function eventText(cue: Cue, style: string, secondary: string | undefined): string {
+  if (!cue.translation) return escapeAssText(cue.lines);
+  if (!secondary) return escapeAssText(cue.translation);
+  // 同一事件内用 \r 切换样式：原文（小字）在上，译文在下
+  return `{\\r${secondary}}${escapeAssText(cue.lines)}\\N{\\r${style}}${escapeAssText(cue.translation)}`;
+}
+
+export function serializeAss(cues: Cue[], options: AssOptions): string {
+  const styles = options.styles.length > 0 ? [...options.styles] : [DEFAULT_ASS_STYLE];
+  // 从 ASS 源文件带来的样式表里第二个样式不一定是原文样式，按名字找
+  if (options.bilingual && !styles.some((s) => s.name === "Secondary")) styles.push(deriveSecondaryStyle(styles[0]));
+  const fallback = styles[0].name;
+  const secondary = options.bilingual ? "Secondary" : undefined;
+  const speakerStyles = options.speakerStyles ? deriveSpeakerStyles(styles[0], listSpeakers(cues)) : new Map<string, AssStyle>();
+  styles.push(...speakerStyles.values());
+  const styleNames = new Set(styles.map((s) => s.name));
+  const events = cues.map((cue) => {
+    const speakerStyle = cue.speaker ? speakerStyles.get(cue.speaker)?.name : undefined;
+    const style = cue.style && styleNames.has(cue.style) ? cue.style : speakerStyle ?? fallback;
+    const name = (cue.speaker ?? "").replace(/,/g, " ");
+    return `Dialogue: 0,${formatAssTime(cue.startMs)},${formatAssTime(cue.endMs)},${style},${name},0,0,0,,${eventText(cue, style, secondary)}`;
+  });
+  return [
+    "[Script Info]",
+    `Title: ${options.title ?? "Madoka Subs"}`,
+    "ScriptType: v4.00+",
+    "WrapStyle: 0",
+    "ScaledBorderAndShadow: yes",
+    `PlayResX: ${options.playResX ?? 1920}`,
+    `PlayResY: ${options.playResY ?? 1080}`,
+    "",
+    "[V4+ Styles]",
+    "Format: Name, Fontname, Fontsize, PrimaryColour, SecondaryColour, OutlineColour, BackColour, Bold, Italic, Underline, StrikeOut, ScaleX, ScaleY, Spacing, Angle, BorderStyle, Outline, Shadow, Alignment, MarginL, MarginR, MarginV, Encoding",
+    ...styles.map(styleLine),
+    "",
+    "[Events]",
+    "Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text",
+    ...events,
+    "",
+  ].join("\n");
+}
+
+export type AssDocument = {
+  cues: Cue[];
+  styles: AssStyle[];
+  playResX?: number;
+  playResY?: number;
+};
+
+function splitFields(line: string, count: number): string[] {
+  // 最后一个字段（Text）里可能有逗号，只切前 count - 1 次
+  const parts = line.split(",");
+  return [...parts.slice(0, count - 1), parts.slice(count - 1).join(",")].map((part) => part.trim());
+}
+
+function toStyle(fields: Record<string, string>): AssStyle {
+  const num = (key: string, fallback: number) => (fields[key] !== undefined && !Number.isNaN(Number(fields[key])) ? Number(fields[key]) : fallback);
+  return {
+    name: fields.name || DEFAULT_ASS_STYLE.name,
+    fontName: fields.fontname || DEFAULT_ASS_STYLE.fontName,
+    fontSize: num("fontsize", DEFAULT_ASS_STYLE.fontSize),
+    primaryColor: fromAssColor(fields.primarycolour, DEFAULT_ASS_STYLE.primaryColor),
+    outlineColor: fromAssColor(fields.outlinecolour, DEFAULT_ASS_STYLE.outlineColor),
+    backColor: fromAssColor(fields.backcolour, DEFAULT_ASS_STYLE.backColor),
+    bold: num("bold", 0) !== 0,
+    italic: num("italic", 0) !== 0,
+    outline: num("outline", DEFAULT_ASS_STYLE.outline),
+    shadow: num("shadow", DEFAULT_ASS_STYLE.shadow),
+    alignment: num("alignment", DEFAULT_ASS_STYLE.alignment),
+    marginL: num("marginl", DEFAULT_ASS_STYLE.marginL),
+    marginR: num("marginr", DEFAULT_ASS_STYLE.marginR),
+    marginV: num("marginv", DEFAULT_ASS_STYLE.marginV),
+  };
+}
+
+/** 去掉覆盖标签，`\N` 换行、`\h` 硬空格；绘图事件（`\p1` 等）返回 null。 */
+function eventLines(text: string): string[] | null {
+  if (/\{[^}]*\\p[1-9]/.test(text)) return null;
+  return text
+    .replace(/\{[^}]*\}/g, "")
+    .replace(/\\h/g, " ")
+    .split(/\\[Nn]/)
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0);
+}
+
+/**
+ * 解析 ASS / SSA，保留样式表、说话人（Name 字段）和每条事件的样式名；
+ * 覆盖标签会被去掉，注释与绘图事件跳过，结果按开始时间排序。
+ */
+export function parseAss(input: string): AssDocument {
+  const styles: AssStyle[] = [];
+  const events: Cue[] = [];
+  let section = "";
+  let format: string[] = [];
+  let playResX: number | undefined;
+  let playResY: number | undefined;
+
+  input
+    .replace(/^\uFEFF/, "")
+    .split(/\r\n?|\n/)
+    .forEach((raw, i) => {
+      const line = raw.trim();
+      const lineNumber = i + 1;
+      if (!line || line.startsWith(";")) return;
+      const header = line.match(/^\[(.+)\]$/);
+      if (header) {
+        section = header[1].toLowerCase();
+        format = [];
+        return;
+      }
+      const colon = line.indexOf(":");
+      if (colon < 0) return;
+      const key = line.slice(0, colon).trim().toLowerCase();
+      const value = line.slice(colon + 1).trim();
+
+      if (section === "script info") {
+        if (key === "playresx") playResX = Number(value) || undefined;
+        if (key === "playresy") playResY = Number(value) || undefined;
+        return;
+      }
+      if (key === "format") {
+        format = value.split(",").map((field) => field.trim().toLowerCase());
+        return;
+      }
+      const isStyle = key === "style" && (section === "v4+ styles" || section === "v4 styles");
+      const isDialogue = key === "dialogue" && section === "events";
+      if (!isStyle && !isDialogue) return;
+      if (format.length === 0) {
+        throw new SubtitleParseError("缺少 Format 行", lineNumber);
+      }
+      const values = splitFields(value, format.length);
+      const fields = Object.fromEntries(format.map((name, j) => [name, values[j] ?? ""]));
+      if (isStyle) {
+        styles.push(toStyle(fields));
+        return;
+      }
+      const startMs = parseAssTime(fields.start ?? "");
+      const endMs = parseAssTime(fields.end ?? "");
+      if (startMs === null || endMs === null) {
+        throw new SubtitleParseError("时间格式错误（H:MM:SS.cc）", lineNumber);
+      }
+      const lines = eventLines(fields.text ?? "");
+      if (!lines || lines.length === 0) return;
+      events.push({
+        index: events.length + 1,
+        startMs,
+        endMs,
+        lines,
+        ...(fields.style ? { style: fields.style.replace(/^\*/, "") } : {}),
+        ...(fields.name ? { speaker: fields.name } : {}),
+      });
+    });
+
+  return {
+    cues: renumberCues([...events].sort((a, b) => a.startMs - b.startMs)),
+    styles,
+    ...(playResX ? { playResX } : {}),
+    ...(playResY ? { playResY } : {}),
+  };
+}
@@ -0,0 +1,20 @@
+import { type Cue } from "./cue";
+
+/** translated：只输出译文（无译文时回退原文）；bilingual：原文在上、译文在下。 */
+export type OutputMode = "translated" | "bilingual";
+
+export function isOutputMode(value: unknown): value is OutputMode {
+  return value === "translated" || value === "bilingual";
+}
+
+export function translationOnly(cues: Cue[]): Cue[] {
+  return cues.map(({ translation, ...cue }) => (translation ? { ...cue, lines: translation } : cue));
+}
+
+export function stackBilingual(cues: Cue[]): Cue[] {
+  return cues.map(({ translation, ...cue }) => (translation ? { ...cue, lines: [...cue.lines, ...translation] } : cue));
+}
+
+export function applyOutputMode(cues: Cue[], mode: OutputMode): Cue[] {
+  return mode === "bilingual" ? stackBilingual(cues) : translationOnly(cues);
+}
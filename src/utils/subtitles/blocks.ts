@@ -0,0 +1,43 @@
+import { SubtitleParseError } from "./errors";
+import { parseTimestamp } from "./time";
+
+const TIMING_RE = /^\s*(\S+)\s*-->\s*(\S+)(?:\s+(.*))?$/;
+
+export type Block = { startLine: number; lines: string[] };
+
+export type Timing = { startMs: number; endMs: number; settings?: string };
+
+/** 按空行切块，同时记录每块首行在原文中的行号（从 1 开始）。 */
+export function splitBlocks(input: string): Block[] {
+  const rows = input.replace(/^\uFEFF/, "").replace(/\r\n?/g, "\n").split("\n");
+  const blocks: Block[] = [];
+  let current: Block | null = null;
+  for (let i = 0; i < rows.length; i++) {
+    const row = rows[i];
+    if (row.trim().length === 0) {
+      if (current) blocks.push(current);
+      current = null;
+      continue;
+    }
+    if (!current) current = { startLine: i + 1, lines: [] };
+    current.lines.push(row);
+  }
+  if (current) blocks.push(current);
+  return blocks;
+}
+
+/** 解析 `start --> end [settings]`；不是时间轴行时返回 null，时间戳非法时抛错。 */
+export function parseTiming(raw: string, line: number): Timing | null {
+  const m = raw.match(TIMING_RE);
+  if (!m) return null;
+  const startMs = parseTimestamp(m[1]);
+  const endMs = parseTimestamp(m[2]);
+  if (startMs == null || endMs == null) {
+    throw new SubtitleParseError(`时间戳格式错误: ${raw.trim()}`, line);
+  }
+  if (endMs < startMs) {
+    throw new SubtitleParseError(`结束时间早于开始时间: ${raw.trim()}`, line);
+  }
+  const settings = m[3]?.trim();
+  return settings ? { startMs, endMs, settings } : { startMs, endMs };
+}
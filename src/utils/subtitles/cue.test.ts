@@ -0,0 +1,17 @@
+import { describe, expect, it } from "vitest";
+import { renumberCues, textToLines, withText } from "./cue";
+
+describe("textToLines", () => {
+  it("normalises line endings and drops blank lines", () => {
+    expect(textToLines("a  \r\nb\r\rc\n\n")).toEqual(["a", "b", "c"]);
+  });
+});
+
+describe("withText / renumberCues", () => {
+  it("does not mutate the input", () => {
+    const cues = [{ index: 5, startMs: 0, endMs: 1, lines: ["x"] }];
+    expect(withText(cues[0], "y\nz").lines).toEqual(["y", "z"]);
+    expect(renumberCues(cues)[0].index).toBe(1);
+    expect(cues[0]).toEqual({ index: 5, startMs: 0, endMs: 1, lines: ["x"] });
+  });
+});
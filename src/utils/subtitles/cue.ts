@@ -0,0 +1,38 @@
+/**
+ * 字幕在内存中的统一表示。所有 ASR / 翻译路由都基于 Cue 读写，
+ * 只在输入输出边界才与 SRT 等文本格式互转。
+ */
+export type Cue = {
+  index: number;
+  startMs: number;
+  endMs: number;
+  lines: string[];
+  speaker?: string;
+  style?: string;
+  language?: string;
+  /** WebVTT cue settings（如 `align:start line:90%`），原样保留。 */
+  settings?: string;
+  /** 译文行；存在时 `lines` 为原文。 */
+  translation?: string[];
+};
+
+export function cueText(cue: Cue): string {
+  return cue.lines.join("\n");
+}
+
+export function textToLines(text: string): string[] {
+  return text
+    .replace(/\r\n?/g, "\n")
+    .split("\n")
+    .map((line) => line.trimEnd())
+    .filter((line) => line.length > 0);
+}
+
+export function withText(cue: Cue, text: string): Cue {
+  return { ...cue, lines: textToLines(text) };
+}
+
+/** 按出现顺序重新编号（从 1 开始），不修改入参。 */
+export function renumberCues(cues: Cue[]): Cue[] {
+  return cues.map((cue, i) => ({ ...cue, index: i + 1 }));
+}
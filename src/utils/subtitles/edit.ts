@@ -0,0 +1,99 @@
+import { type Cue, renumberCues } from "./cue";
+import { DEFAULT_SEGMENT_OPTIONS, displayWidth, wrapWords } from "./segment";
+
+// 编辑器与质量检查自动修复共用的 cue 操作，均返回新数组，不修改入参
+
+const WIDE_EDGE_RE = /[\u2E80-\uA4CF\uAC00-\uD7A3\uF900-\uFAFF\uFF00-\uFF60]/;
+
+function charCount(lines: string[]): number {
+  return [...lines.join("")].length;
+}
+
+/** 拼接多行：两侧都不是中日韩字符时才补空格。 */
+function joinLines(lines: string[]): string {
+  return lines
+    .map((l) => l.trim())
+    .filter(Boolean)
+    .reduce((acc, line) => (acc && !WIDE_EDGE_RE.test(acc.slice(-1)) && !WIDE_EDGE_RE.test(line.charAt(0)) ? `${acc} ${line}` : acc + line), "");
+}
+
+// 拉丁词连同后面的标点算一个单位，其它字符（中日韩等）逐字切
+const TOKEN_RE = /\s*[A-Za-z0-9\u00C0-\u024F'\u2019-]+[^\sA-Za-z0-9\u00C0-\u024F]*|\s*\S/g;
+
+function tokenize(text: string): string[] {
+  return text.match(TOKEN_RE) ?? [];
+}
+
+/** 把多行文本重新折成宽度尽量接近的几行。 */
+export function rebalanceLines(lines: string[], maxCharsPerLine = DEFAULT_SEGMENT_OPTIONS.maxCharsPerLine): string[] {
+  const tokens = tokenize(joinLines(lines));
+  if (tokens.length === 0) return [];
+  const total = displayWidth(tokens.join("").trim());
+  const count = Math.max(1, Math.ceil(total / maxCharsPerLine));
+  const longest = Math.max(...tokens.map((t) => displayWidth(t.trim())));
+  // 从平均宽度起逐步放宽，直到行数不超过理想行数
+  for (let width = Math.max(longest, Math.ceil(total / count)); width <= maxCharsPerLine; width++) {
+    const wrapped = wrapWords(tokens, width);
+    if (wrapped.length <= count) return wrapped;
+  }
+  return wrapWords(tokens, maxCharsPerLine);
+}
+
+function splitText(lines: string[], ratio: number): [string[], string[]] {
+  const tokens = tokenize(joinLines(lines));
+  const cut = Math.min(tokens.length - 1, Math.max(1, Math.round(tokens.length * ratio)));
+  return [[tokens.slice(0, cut).join("").trim()], [tokens.slice(cut).join("").trim()]];
+}
+
+export function mergeCues(cues: Cue[], position: number): Cue[] {
+  const cue = cues[position];
+  const next = cues[position + 1];
+  if (!cue || !next) return cues;
+  const merged: Cue = {
+    ...cue,
+    endMs: Math.max(cue.endMs, next.endMs),
+    lines: [...cue.lines, ...next.lines],
+    ...(cue.translation || next.translation ? { translation: [...(cue.translation ?? []), ...(next.translation ?? [])] } : {}),
+  };
+  return renumberCues([...cues.slice(0, position), merged, ...cues.slice(position + 2)]);
+}
+
+/** 按原文字数比例切开时间轴，原文和译文各自按同一比例一分为二。 */
+export function splitCue(cues: Cue[], position: number, maxCharsPerLine = DEFAULT_SEGMENT_OPTIONS.maxCharsPerLine): Cue[] {
+  const cue = cues[position];
+  if (!cue || tokenize(joinLines(cue.lines)).length < 2) return cues;
+  const [firstLines, secondLines] = splitText(cue.lines, 0.5);
+  const ratio = charCount(firstLines) / Math.max(1, charCount(cue.lines));
+  const at = Math.round(cue.startMs + (cue.endMs - cue.startMs) * ratio);
+  const [firstTr, secondTr] = cue.translation && cue.translation.length > 0 ? splitText(cue.translation, ratio) : [undefined, undefined];
+  const first: Cue = { ...cue, endMs: at, lines: rebalanceLines(firstLines, maxCharsPerLine), ...(firstTr ? { translation: rebalanceLines(firstTr, maxCharsPerLine) } : {}) };
+  const second: Cue = { ...cue, startMs: at, lines: rebalanceLines(secondLines, maxCharsPerLine), ...(secondTr ? { translation: rebalanceLines(secondTr, maxCharsPerLine) } : {}) };
+  return renumberCues([...cues.slice(0, position), first, second, ...cues.slice(position + 1)]);
+}
+
+export function updateCue(cues: Cue[], position: number, patch: Partial<Cue>): Cue[] {
+  return cues.map((cue, i) => (i === position ? { ...cue, ...patch } : cue));
+}
+
+/** 微调时间轴；start / end 单独调整时保证至少 1 ms 时长。 */
+export function nudgeCue(cues: Cue[], position: number, edge: "start" | "end" | "both", deltaMs: number): Cue[] {
+  const cue = cues[position];
+  if (!cue) return cues;
+  const startMs = edge === "end" ? cue.startMs : Math.max(0, cue.startMs + deltaMs);
+  const endMs = edge === "start" ? cue.endMs : Math.max(startMs + 1, cue.endMs + (edge === "both" ? startMs - cue.startMs : deltaMs));
+  return updateCue(cues, position, { startMs: Math.min(startMs, endMs - 1), endMs });
+}
+
+/** 在 position 之后插入一条空字幕，时长取到下一条开始前（最多 2 秒）。 */
+export function insertCueAfter(cues: Cue[], position: number): Cue[] {
+  const prev = cues[position];
+  const next = cues[position + 1];
+  const startMs = prev ? prev.endMs : 0;
+  const endMs = next ? Math.max(startMs + 1, Math.min(startMs + 2000, next.startMs)) : startMs + 2000;
+  const cue: Cue = { index: 0, startMs, endMs, lines: [] };
+  return renumberCues([...cues.slice(0, position + 1), cue, ...cues.slice(position + 1)]);
+}
+
+export function deleteCue(cues: Cue[], position: number): Cue[] {
+  return renumberCues(cues.filter((_, i) => i !== position));
+}
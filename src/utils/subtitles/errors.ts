@@ -0,0 +1,9 @@
+export class SubtitleParseError extends Error {
+  readonly line: number;
+
+  constructor(message: string, line: number) {
+    super(`第 ${line} 行: ${message}`);
+    this.name = "SubtitleParseError";
+    this.line = line;
+  }
+}
@@ -0,0 +1,47 @@
+import { type AssOptions, parseAss, serializeAss } from "./ass";
+import { applyOutputMode, type OutputMode } from "./bilingual";
+import { type Cue } from "./cue";
+import { markSpeakerTurns, type SpeakerMarkup, stripSpeakers } from "./speakers";
+import { parseSrt, serializeSrt } from "./srt";
+import { parseVtt, serializeVtt } from "./vtt";
+
+/** 可解析的输入格式；ASS 输入时保留每条的样式名与说话人。 */
+export type SubtitleFormat = "srt" | "vtt" | "ass";
+
+/** 可导出的格式。 */
+export type SubtitleExportFormat = SubtitleFormat;
+
+export const SUBTITLE_FORMATS: SubtitleFormat[] = ["srt", "vtt", "ass"];
+
+export const SUBTITLE_MIME_TYPES: Record<SubtitleExportFormat, string> = {
+  srt: "application/x-subrip",
+  vtt: "text/vtt",
+  ass: "text/x-ssa",
+};
+
+export type SerializeOptions = { ass?: AssOptions; mode?: OutputMode; speakers?: SpeakerMarkup };
+
+export function isSubtitleFormat(value: unknown): value is SubtitleFormat {
+  return typeof value === "string" && (SUBTITLE_FORMATS as string[]).includes(value);
+}
+
+export function detectSubtitleFormat(input: string): SubtitleFormat {
+  if (/^\uFEFF?\s*\[Script Info\]/i.test(input)) return "ass";
+  return /^\uFEFF?WEBVTT(?:[ \t\r\n]|$)/.test(input) ? "vtt" : "srt";
+}
+
+export function parseSubtitle(input: string, format: SubtitleFormat = detectSubtitleFormat(input)): Cue[] {
+  if (format === "ass") return parseAss(input).cues;
+  return format === "vtt" ? parseVtt(input) : parseSrt(input);
+}
+
+export function serializeSubtitle(cues: Cue[], format: SubtitleExportFormat, options: SerializeOptions = {}): string {
+  const mode = options.mode ?? "translated";
+  const speakers = options.speakers ?? "none";
+  if (format === "ass") {
+    return serializeAss(cues, { styles: [], ...options.ass, bilingual: mode === "bilingual", speakerStyles: speakers !== "none" });
+  }
+  const flat = applyOutputMode(cues, mode);
+  if (format === "vtt") return serializeVtt(speakers === "none" ? stripSpeakers(flat) : flat);
+  return serializeSrt(speakers === "none" ? flat : markSpeakerTurns(flat, speakers));
+}
@@ -0,0 +1,12 @@
+export * from "./ass";
+export * from "./bilingual";
+export * from "./cue";
+export * from "./edit";
+export * from "./errors";
+export * from "./format";
+export * from "./lint";
+export * from "./segment";
+export * from "./speakers";
+export * from "./srt";
+export * from "./time";
+export * from "./vtt";
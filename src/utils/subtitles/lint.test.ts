@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest";
+import { type Cue } from "./cue";
+import { applyLintFix, autoFixCues, lintCues } from "./lint";
+
+const cue = (index: number, startMs: number, endMs: number, ...lines: string[]): Cue => ({ index, startMs, endMs, lines });
+
+describe("applyLintFix", () => {
+  it("returns the same array when the fix changes nothing", () => {
+    const cues = [cue(1, 0, 2000, "short"), cue(2, 2080, 4000, "next")];
+    expect(applyLintFix(cues, { position: 0, index: 1, layer: "source", rule: "overlap", message: "", fix: "trim" })).toBe(cues);
+    expect(applyLintFix(cues, { position: 0, index: 1, layer: "source", rule: "line-length", message: "", fix: "rebalance" })).toBe(cues);
+  });
+});
+
+describe("lintCues", () => {
+  it("does not suggest merging when the merged cue would need splitting again", () => {
+    const long = "word ".repeat(16).trim();
+    const cues = [cue(1, 0, 300, long), cue(2, 300, 3000, long)];
+    const tooShort = lintCues(cues, { maxCharsPerLine: 42, maxLines: 2 }).find((w) => w.rule === "too-short");
+    expect(tooShort?.fix).toBeUndefined();
+  });
+});
+
+describe("autoFixCues", () => {
+  it("returns the input untouched when nothing is fixable", () => {
+    const cues = [cue(1, 0, 2000, "fine"), cue(2, 3000, 5000, "also fine")];
+    expect(autoFixCues(cues)).toBe(cues);
+  });
+
+  it("applies several warnings at one position across passes without touching neighbours", () => {
+    // 与下一条重叠，同时行过多
+    const cues = [cue(1, 0, 5000, "one", "two", "three"), cue(2, 4000, 8000, "neighbour")];
+    const fixed = autoFixCues(cues);
+    expect(lintCues(fixed).filter((w) => w.fix)).toEqual([]);
+    expect(fixed[fixed.length - 1]).toMatchObject({ startMs: 4000, endMs: 8000, lines: ["neighbour"] });
+    expect(fixed[0].endMs).toBeLessThanOrEqual(4000 - 80);
+  });
+
+  it("does not oscillate between split and merge", () => {
+    const long = "lorem ipsum dolor sit amet ".repeat(8).trim();
+    const cues = [cue(1, 0, 1500, long), cue(2, 1500, 4500, "after")];
+    const once = autoFixCues(cues, {}, 10);
+    expect(autoFixCues(once, {}, 10)).toBe(once);
+    expect(once.flatMap((c) => c.lines).join(" ")).toBe(`${long} after`);
+  });
+});
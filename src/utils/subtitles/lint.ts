@@ -0,0 +1,170 @@
+import { type Cue } from "./cue";
+import { mergeCues, rebalanceLines, splitCue } from "./edit";
+import { displayWidth } from "./segment";
+
+export type LintRule = "overlap" | "duration" | "too-short" | "reading-speed" | "line-length" | "line-count";
+
+/** 自动修复动作：trim 截短与下一条重叠的部分，extend 延长显示时间，merge 与下一条合并，split 一分为二，rebalance 重新折行。 */
+export type LintFix = "trim" | "extend" | "merge" | "split" | "rebalance";
+
+/** source 检查原文 `lines`，translation 检查译文 `translation`。 */
+export type LintLayer = "source" | "translation";
+
+export type LintWarning = {
+  /** cues 数组中的位置（不是 cue.index）。 */
+  position: number;
+  index: number;
+  layer: LintLayer;
+  rule: LintRule;
+  message: string;
+  fix?: LintFix;
+};
+
+export type LintOptions = {
+  minDurationMs: number;
+  /** 每秒最多字符数（不含换行）。 */
+  maxCps: number;
+  /** 每行最大宽度，全角字符按 2 计，与断句配置一致。 */
+  maxCharsPerLine: number;
+  maxLines: number;
+  /** 延长时与下一条至少保留的间隔。 */
+  minGapMs: number;
+};
+
+export const DEFAULT_LINT_OPTIONS: LintOptions = {
+  minDurationMs: 700,
+  maxCps: 17,
+  maxCharsPerLine: 42,
+  maxLines: 2,
+  minGapMs: 80,
+};
+
+function layerLines(cue: Cue, layer: LintLayer): string[] | undefined {
+  return layer === "source" ? cue.lines : cue.translation;
+}
+
+function charCount(lines: string[]): number {
+  return [...lines.join("")].length;
+}
+
+/** 与下一条合并后仍能折进 maxLines 行时才建议合并，否则合并后又会被拆开。 */
+function mergeFits(cue: Cue, next: Cue, options: LintOptions): boolean {
+  return (["source", "translation"] as LintLayer[]).every((layer) => {
+    const lines = [...(layerLines(cue, layer) ?? []), ...(layerLines(next, layer) ?? [])];
+    return rebalanceLines(lines, options.maxCharsPerLine).length <= options.maxLines;
+  });
+}
+
+function sameLines(a: string[] | undefined, b: string[] | undefined): boolean {
+  return a === b || (a !== undefined && b !== undefined && a.length === b.length && a.every((line, i) => line === b[i]));
+}
+
+/** 下一条开始前还能延长到的最晚时间；最后一条不限。 */
+function latestEnd(cues: Cue[], position: number, options: LintOptions): number {
+  const next = cues[position + 1];
+  return next ? next.startMs - options.minGapMs : Number.POSITIVE_INFINITY;
+}
+
+export function lintCues(cues: Cue[], overrides: Partial<LintOptions> = {}): LintWarning[] {
+  const options = { ...DEFAULT_LINT_OPTIONS, ...overrides };
+  const warnings: LintWarning[] = [];
+  cues.forEach((cue, position) => {
+    const warn = (layer: LintLayer, rule: LintRule, message: string, fix?: LintFix) =>
+      warnings.push({ position, index: cue.index, layer, rule, message, ...(fix ? { fix } : {}) });
+    const duration = cue.endMs - cue.startMs;
+    const next = cues[position + 1];
+    const room = latestEnd(cues, position, options) - cue.startMs;
+
+    if (next && next.startMs < cue.endMs) {
+      warn("source", "overlap", `与第 ${next.index} 条重叠 ${cue.endMs - next.startMs} ms`, "trim");
+    }
+    if (duration <= 0) {
+      warn("source", "duration", `时长为 ${duration} ms`, "extend");
+    } else if (duration < options.minDurationMs) {
+      const fix = room >= options.minDurationMs || !next ? "extend" : mergeFits(cue, next, options) ? "merge" : undefined;
+      warn("source", "too-short", `只显示 ${duration} ms，少于 ${options.minDurationMs} ms`, fix);
+    }
+
+    for (const layer of ["source", "translation"] as LintLayer[]) {
+      const lines = layerLines(cue, layer);
+      if (!lines || lines.length === 0) continue;
+      const chars = charCount(lines);
+      if (duration > 0) {
+        const cps = (chars * 1000) / duration;
+        if (cps > options.maxCps) {
+          // 合并只会让字更多，后面没有空隙可延长时只提示、不自动修
+          warn(layer, "reading-speed", `阅读速度 ${cps.toFixed(1)} 字/秒，超过 ${options.maxCps}`, room > duration || !next ? "extend" : undefined);
+        }
+      }
+      const widest = Math.max(...lines.map(displayWidth));
+      if (widest > options.maxCharsPerLine) {
+        warn(layer, "line-length", `单行宽度 ${widest}，超过 ${options.maxCharsPerLine}`, "rebalance");
+      }
+      if (lines.length > options.maxLines) {
+        const fits = rebalanceLines(lines, options.maxCharsPerLine).length <= options.maxLines;
+        warn(layer, "line-count", `共 ${lines.length} 行，超过 ${options.maxLines} 行`, fits ? "rebalance" : "split");
+      }
+    }
+  });
+  return warnings;
+}
+
+export function applyLintFix(cues: Cue[], warning: LintWarning, overrides: Partial<LintOptions> = {}): Cue[] {
+  const options = { ...DEFAULT_LINT_OPTIONS, ...overrides };
+  const position = warning.position;
+  const cue = cues[position];
+  if (!cue || !warning.fix) return cues;
+  // 修复后内容不变时返回原数组，调用方据此判断是否有改动
+  const replace = (patch: Pick<Cue, "endMs"> | Pick<Cue, "lines"> | Pick<Cue, "translation">) => {
+    const unchanged =
+      ("endMs" in patch && patch.endMs === cue.endMs) ||
+      ("lines" in patch && sameLines(patch.lines, cue.lines)) ||
+      ("translation" in patch && sameLines(patch.translation, cue.translation));
+    return unchanged ? cues : cues.map((c, i) => (i === position ? { ...c, ...patch } : c));
+  };
+
+  switch (warning.fix) {
+    case "trim": {
+      const next = cues[position + 1];
+      return next ? replace({ endMs: Math.max(cue.startMs + 1, next.startMs - options.minGapMs) }) : cues;
+    }
+    case "extend": {
+      const chars = Math.max(charCount(cue.lines), charCount(cue.translation ?? []));
+      const wanted = Math.max(options.minDurationMs, Math.ceil((chars * 1000) / options.maxCps));
+      const endMs = Math.min(cue.startMs + wanted, latestEnd(cues, position, options));
+      return endMs > cue.endMs ? replace({ endMs }) : cues;
+    }
+    case "merge":
+      return mergeCues(cues, position);
+    case "split":
+      return splitCue(cues, position, options.maxCharsPerLine);
+    case "rebalance":
+      return warning.layer === "source"
+        ? replace({ lines: rebalanceLines(cue.lines, options.maxCharsPerLine) })
+        : replace({ translation: rebalanceLines(cue.translation ?? [], options.maxCharsPerLine) });
+  }
+}
+
+/**
+ * 逐轮检查并修复，直到没有变化（最多 maxPasses 轮）。
+ * 同一位置的警告都基于修复前的内容，每轮每个位置只应用第一条生效的修复，其余留到下一轮重新检查。
+ */
+export function autoFixCues(cues: Cue[], overrides: Partial<LintOptions> = {}, maxPasses = 5): Cue[] {
+  let current = cues;
+  for (let pass = 0; pass < maxPasses; pass++) {
+    const fixed = new Set<number>();
+    // 从后往前修，merge / split 不会影响前面的位置；同一位置保持检查顺序
+    const warnings = lintCues(current, overrides)
+      .filter((w) => w.fix)
+      .sort((a, b) => b.position - a.position);
+    for (const w of warnings) {
+      if (fixed.has(w.position)) continue;
+      const next = applyLintFix(current, w, overrides);
+      if (next === current) continue;
+      current = next;
+      fixed.add(w.position);
+    }
+    if (fixed.size === 0) break;
+  }
+  return current;
+}
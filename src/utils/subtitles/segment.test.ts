@@ -0,0 +1,83 @@
+import { describe, expect, it } from "vitest";
+import { displayWidth, segmentWords, spaceWords, type TimedWord, wrapWords } from "./segment";
+
+/** 每个词 300ms、紧挨着排列。 */
+function timed(texts: string[], startMs = 0, stepMs = 300): TimedWord[] {
+  return texts.map((text, i) => ({ text, startMs: startMs + i * stepMs, endMs: startMs + (i + 1) * stepMs }));
+}
+
+describe("wrapWords", () => {
+  it("breaks only between words and never exceeds the width", () => {
+    const lines = wrapWords(["The", " beautiful", " scene", " of", " the", " mountains"], 12);
+    expect(lines).toEqual(["The", "beautiful", "scene of the", "mountains"]);
+    for (const line of lines) expect(displayWidth(line)).toBeLessThanOrEqual(12);
+  });
+
+  it("counts full-width characters as two columns", () => {
+    expect(wrapWords(["山", "川", "很", "美"], 4)).toEqual(["山川", "很美"]);
+  });
+
+  it("gives an overlong word a line of its own", () => {
+    expect(wrapWords(["a", " incomprehensibilities", " b"], 8)).toEqual(["a", "incomprehensibilities", "b"]);
+  });
+});
+
+describe("spaceWords", () => {
+  it("adds spaces between Latin words but not between CJK characters", () => {
+    const words = spaceWords(timed(["Hello", "world", "你", "好"]));
+    expect(words.map((w) => w.text).join("")).toBe("Hello world你好");
+  });
+});
+
+describe("segmentWords", () => {
+  it("keeps whole words when a cue has to wrap and split", () => {
+    const words = timed(["The", " beautiful", " scene", " of", " the", " mountains", " is", " wonderful"]);
+    const cues = segmentWords(words, { maxCharsPerLine: 12, maxLines: 1 });
+    const vocabulary = new Set(words.map((w) => w.text.trim()));
+    for (const cue of cues) {
+      for (const line of cue.lines) {
+        for (const part of line.split(" ")) expect(vocabulary).toContain(part);
+      }
+    }
+    expect(cues.flatMap((c) => c.lines).join(" ")).toBe("The beautiful scene of the mountains is wonderful");
+  });
+
+  it("splits before a cue would exceed the maximum duration", () => {
+    const cues = segmentWords(timed(["one", " two", " three", " four", " five", " six"], 0, 1000), { maxDurationMs: 2500 });
+    expect(cues.map((c) => c.lines.join(" "))).toEqual(["one two", "three four", "five six"]);
+    for (const cue of cues) expect(cue.endMs - cue.startMs).toBeLessThanOrEqual(2500);
+  });
+
+  it("respects the line width and line count", () => {
+    const cues = segmentWords(timed("a bb ccc dddd eeeee ffffff".split(" ").map((t, i) => (i ? ` ${t}` : t))), {
+      maxCharsPerLine: 8,
+      maxLines: 2,
+    });
+    for (const cue of cues) {
+      expect(cue.lines.length).toBeLessThanOrEqual(2);
+      for (const line of cue.lines) expect(displayWidth(line)).toBeLessThanOrEqual(8);
+    }
+    expect(cues.flatMap((c) => c.lines).join(" ")).toBe("a bb ccc dddd eeeee ffffff");
+  });
+
+  it("prefers the last clause break when a cue overflows", () => {
+    const cues = segmentWords(timed(["Well,", " this", " is", " long", " enough"]), { maxCharsPerLine: 12, maxLines: 1 });
+    expect(cues[0].lines).toEqual(["Well,"]);
+  });
+
+  it("breaks on sentence ends, long pauses and speaker changes", () => {
+    const words: TimedWord[] = [
+      { text: "Hi.", startMs: 0, endMs: 300 },
+      { text: " Yes", startMs: 400, endMs: 700 },
+      { text: " later", startMs: 3000, endMs: 3300 },
+      { text: " no", startMs: 3400, endMs: 3700, speaker: "Speaker 2" },
+    ];
+    expect(segmentWords(words).map((c) => c.lines.join(" "))).toEqual(["Hi.", "Yes", "later", "no"]);
+  });
+
+  it("keeps the minimum gap between consecutive cues", () => {
+    const cues = segmentWords(timed(["One.", " Two."]), { minGapMs: 80 });
+    expect(cues[0].endMs).toBe(220);
+    expect(cues[1].startMs).toBe(300);
+  });
+});
@@ -0,0 +1,121 @@
+import { type Cue } from "./cue";
+
+/** ASR 返回的带时间戳的词 / token。`text` 原样拼接，需要空格的供应商先经过 spaceWords。 */
+export type TimedWord = { text: string; startMs: number; endMs: number; speaker?: string; language?: string };
+
+export type SegmentOptions = {
+  /** 每行最大宽度，全角字符按 2 计。 */
+  maxCharsPerLine: number;
+  maxLines: number;
+  maxDurationMs: number;
+  /** 停顿不短于该值时强制断开。 */
+  pauseMs: number;
+  /** 相邻两条字幕之间至少留出的间隔，过近时截短前一条。 */
+  minGapMs: number;
+};
+
+export const DEFAULT_SEGMENT_OPTIONS: SegmentOptions = {
+  maxCharsPerLine: 42,
+  maxLines: 2,
+  maxDurationMs: 7000,
+  pauseMs: 1000,
+  minGapMs: 80,
+};
+
+const SENTENCE_END_RE = /[.!?。！？…]["'”’」』）)]*\s*$/;
+const CLAUSE_END_RE = /[,;:，、；：—]\s*$/;
+const WIDE_RE = /[\u1100-\u115F\u2E80-\uA4CF\uAC00-\uD7A3\uF900-\uFAFF\uFE30-\uFE4F\uFF00-\uFF60\uFFE0-\uFFE6]/;
+const LATIN_EDGE_RE = /[A-Za-z0-9À-ɏ'’]/;
+
+export function displayWidth(text: string): number {
+  let width = 0;
+  for (const ch of text) width += WIDE_RE.test(ch) ? 2 : 1;
+  return width;
+}
+
+/** 给不带分隔符的词补空格：前后都是拉丁字母 / 数字时才加，中日韩文本保持紧挨。 */
+export function spaceWords(words: TimedWord[]): TimedWord[] {
+  return words.map((word, i) => {
+    const prev = words[i - 1]?.text ?? "";
+    const needsSpace =
+      i > 0 && !/\s$/.test(prev) && !/^\s/.test(word.text) && LATIN_EDGE_RE.test(prev.slice(-1)) && LATIN_EDGE_RE.test(word.text.charAt(0));
+    return needsSpace ? { ...word, text: ` ${word.text}` } : word;
+  });
+}
+
+/** 在词边界贪心折行；单个词超宽时独占一行。 */
+export function wrapWords(texts: string[], maxWidth: number): string[] {
+  const lines: string[] = [];
+  let current = "";
+  for (const text of texts) {
+    const candidate = current + text;
+    if (current && displayWidth(candidate.trim()) > maxWidth) {
+      lines.push(current.trim());
+      current = text.trimStart();
+    } else {
+      current = candidate;
+    }
+  }
+  if (current.trim()) lines.push(current.trim());
+  return lines;
+}
+
+function toCue(words: TimedWord[], options: SegmentOptions): Cue {
+  const first = words[0];
+  return {
+    index: 0,
+    startMs: first.startMs,
+    endMs: words[words.length - 1].endMs,
+    lines: wrapWords(words.map((w) => w.text), options.maxCharsPerLine),
+    ...(first.speaker ? { speaker: first.speaker } : {}),
+    ...(first.language ? { language: first.language } : {}),
+  };
+}
+
+/**
+ * 按词级时间戳切分字幕：换人、长停顿、句末标点处断开；
+ * 超出行数或时长时优先退回到最近的逗号等分句处断开，找不到再在当前词前断开。
+ */
+export function segmentWords(words: TimedWord[], overrides: Partial<SegmentOptions> = {}): Cue[] {
+  const options = { ...DEFAULT_SEGMENT_OPTIONS, ...overrides };
+  const fits = (group: TimedWord[]) =>
+    group[group.length - 1].endMs - group[0].startMs <= options.maxDurationMs &&
+    wrapWords(group.map((w) => w.text), options.maxCharsPerLine).length <= options.maxLines;
+
+  const groups: TimedWord[][] = [];
+  let current: TimedWord[] = [];
+  for (const word of words.filter((w) => w.text.trim())) {
+    const last = current[current.length - 1];
+    if (last && (word.startMs - last.endMs >= options.pauseMs || word.speaker !== last.speaker)) {
+      groups.push(current);
+      current = [];
+    }
+    while (current.length > 0 && !fits([...current, word])) {
+      let cut = -1;
+      for (let i = current.length - 2; i >= 0; i--) {
+        if (CLAUSE_END_RE.test(current[i].text)) {
+          cut = i;
+          break;
+        }
+      }
+      groups.push(current.slice(0, cut + 1 || current.length));
+      current = cut >= 0 ? current.slice(cut + 1) : [];
+    }
+    current.push(word);
+    if (SENTENCE_END_RE.test(word.text)) {
+      groups.push(current);
+      current = [];
+    }
+  }
+  if (current.length > 0) groups.push(current);
+
+  const cues = groups.map((group) => toCue(group, options));
+  cues.forEach((cue, i) => {
+    cue.index = i + 1;
+    const next = cues[i + 1];
+    if (next && next.startMs - cue.endMs < options.minGapMs) {
+      cue.endMs = Math.max(cue.startMs + 1, Math.min(cue.endMs, next.startMs - options.minGapMs));
+    }
+  });
+  return cues;
+}
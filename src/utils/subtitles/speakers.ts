@@ -0,0 +1,38 @@
+import { type Cue } from "./cue";
+
+/**
+ * 说话人标记的导出方式：
+ * none 不标记；dash 在换人的字幕首行加 `- `；label 在换人的字幕首行加 `名字: `。
+ * VTT 只要不是 none 就输出 `<v 名字>`，ASS 则按说话人生成样式。
+ */
+export type SpeakerMarkup = "none" | "dash" | "label";
+
+export function isSpeakerMarkup(value: unknown): value is SpeakerMarkup {
+  return value === "none" || value === "dash" || value === "label";
+}
+
+/** 按首次出现顺序列出说话人。 */
+export function listSpeakers(cues: Cue[]): string[] {
+  return [...new Set(cues.flatMap((cue) => (cue.speaker ? [cue.speaker] : [])))];
+}
+
+/** names 中值为空的条目视为未改名。 */
+export function renameSpeakers(cues: Cue[], names: Record<string, string>): Cue[] {
+  return cues.map((cue) => {
+    const renamed = cue.speaker ? names[cue.speaker]?.trim() : undefined;
+    return renamed ? { ...cue, speaker: renamed } : cue;
+  });
+}
+
+export function stripSpeakers(cues: Cue[]): Cue[] {
+  return cues.map(({ speaker: _speaker, ...cue }) => cue);
+}
+
+/** 只在说话人变化的字幕上加前缀，连续同一人说话时不重复标记。 */
+export function markSpeakerTurns(cues: Cue[], markup: Exclude<SpeakerMarkup, "none">): Cue[] {
+  return cues.map((cue, i) => {
+    if (!cue.speaker || cue.lines.length === 0 || cues[i - 1]?.speaker === cue.speaker) return cue;
+    const prefix = markup === "dash" ? "- " : `${cue.speaker}: `;
+    return { ...cue, lines: [`${prefix}${cue.lines[0]}`, ...cue.lines.slice(1)] };
+  });
+}
@@ -0,0 +1,83 @@
+import { describe, expect, it } from "vitest";
+import { type Cue } from "./cue";
+import { SubtitleParseError } from "./errors";
+import { parseSrt, serializeSrt } from "./srt";
+
+const SAMPLE = `1
+00:00:01,000 --> 00:00:02,500
+Hello
+world
+
+2
+00:00:03,000 --> 00:00:04,000
+Second cue
+`;
+
+function parseError(input: string): SubtitleParseError {
+  try {
+    parseSrt(input);
+  } catch (e) {
+    if (e instanceof SubtitleParseError) return e;
+    throw e;
+  }
+  throw new Error("expected parseSrt to throw");
+}
+
+describe("parseSrt", () => {
+  it("parses indices, timings and multi-line text", () => {
+    expect(parseSrt(SAMPLE)).toEqual([
+      { index: 1, startMs: 1000, endMs: 2500, lines: ["Hello", "world"] },
+      { index: 2, startMs: 3000, endMs: 4000, lines: ["Second cue"] },
+    ]);
+  });
+
+  it("tolerates CRLF, a BOM, missing indices and . separators", () => {
+    const cues = parseSrt("﻿00:00:01.000 --> 00:00:02.000\r\nNo index\r\n\r\n00:00:03,000 --> 00:00:04,000\r\nAlso none\r\n");
+    expect(cues.map((c) => c.index)).toEqual([1, 2]);
+    expect(cues[0]).toMatchObject({ startMs: 1000, endMs: 2000, lines: ["No index"] });
+  });
+
+  it("returns no cues for empty input", () => {
+    expect(parseSrt("")).toEqual([]);
+    expect(parseSrt("\n\n  \n")).toEqual([]);
+  });
+});
+
+describe("parseSrt errors", () => {
+  it("reports the line of a missing timing line", () => {
+    const error = parseError(`${SAMPLE}\n3\nno timing here\n`);
+    expect(error.line).toBe(11);
+    expect(error.message).toContain("第 11 行");
+  });
+
+  it("reports the line of a malformed timestamp", () => {
+    expect(parseError("1\n00:00:01,000 --> 00:00:02,000\nok\n\n2\n00:00:xx,000 --> 00:00:04,000\nbad\n").line).toBe(6);
+  });
+
+  it("reports the line of an end time before the start time", () => {
+    expect(parseError("\n\n1\n00:00:05,000 --> 00:00:04,000\ntext\n").line).toBe(4);
+  });
+
+  it("reports the timing line when the index line is alone", () => {
+    expect(parseError("1\n").line).toBe(2);
+  });
+});
+
+describe("serializeSrt", () => {
+  it("round-trips parsed cues", () => {
+    const cues = parseSrt(SAMPLE);
+    expect(serializeSrt(cues)).toBe(SAMPLE);
+    expect(parseSrt(serializeSrt(cues))).toEqual(cues);
+  });
+
+  it("renumbers from 1 and formats long hours", () => {
+    const cues: Cue[] = [{ index: 7, startMs: 100 * 3600 * 1000, endMs: 100 * 3600 * 1000 + 1500, lines: ["late"] }];
+    const srt = serializeSrt(cues);
+    expect(srt).toBe("1\n100:00:00,000 --> 100:00:01,500\nlate\n");
+    expect(parseSrt(srt)).toEqual([{ ...cues[0], index: 1 }]);
+  });
+
+  it("returns an empty string for no cues", () => {
+    expect(serializeSrt([])).toBe("");
+  });
+});
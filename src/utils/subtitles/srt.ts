@@ -0,0 +1,41 @@
+import { splitBlocks, parseTiming } from "./blocks";
+import { type Cue } from "./cue";
+import { SubtitleParseError } from "./errors";
+import { formatTimestamp } from "./time";
+
+/**
+ * 解析 SRT。格式错误时抛出带行号的 SubtitleParseError；
+ * 序号行可缺省，缺省时按出现顺序编号。
+ */
+export function parseSrt(input: string): Cue[] {
+  const cues: Cue[] = [];
+  for (const block of splitBlocks(input)) {
+    let cursor = 0;
+    let index = cues.length + 1;
+    if (/^\s*\d+\s*$/.test(block.lines[0])) {
+      index = Number(block.lines[0].trim());
+      cursor = 1;
+    }
+    const timingLine = block.startLine + cursor;
+    const timing = cursor < block.lines.length ? parseTiming(block.lines[cursor], timingLine) : null;
+    if (!timing) {
+      throw new SubtitleParseError("缺少时间轴行（HH:MM:SS,mmm --> HH:MM:SS,mmm）", timingLine);
+    }
+    cues.push({
+      index,
+      startMs: timing.startMs,
+      endMs: timing.endMs,
+      lines: block.lines.slice(cursor + 1).map((l) => l.trimEnd()),
+    });
+  }
+  return cues;
+}
+
+export function serializeSrt(cues: Cue[]): string {
+  if (cues.length === 0) return "";
+  return (
+    cues
+      .map((cue, i) => `${i + 1}\n${formatTimestamp(cue.startMs)} --> ${formatTimestamp(cue.endMs)}\n${cue.lines.join("\n")}`)
+      .join("\n\n") + "\n"
+  );
+}
@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest";
+import { formatTimestamp, parseTimestamp } from "./time";
+
+describe("parseTimestamp", () => {
+  it("accepts both , and . as the millisecond separator", () => {
+    expect(parseTimestamp("00:01:02,345")).toBe(62345);
+    expect(parseTimestamp("00:01:02.345")).toBe(62345);
+  });
+
+  it("allows omitting hours and short millisecond fields", () => {
+    expect(parseTimestamp("01:02.5")).toBe(62500);
+    expect(parseTimestamp("01:02,05")).toBe(62050);
+  });
+
+  it("accepts hours beyond 99", () => {
+    expect(parseTimestamp("123:00:00,000")).toBe(123 * 3600 * 1000);
+  });
+
+  it("rejects negative values and out-of-range fields", () => {
+    expect(parseTimestamp("-00:00:01,000")).toBeNull();
+    expect(parseTimestamp("00:-01:00,000")).toBeNull();
+    expect(parseTimestamp("00:60:00,000")).toBeNull();
+    expect(parseTimestamp("00:00:60,000")).toBeNull();
+    expect(parseTimestamp("00:00:01")).toBeNull();
+  });
+});
+
+describe("formatTimestamp", () => {
+  it("uses , by default and . when asked", () => {
+    expect(formatTimestamp(62345)).toBe("00:01:02,345");
+    expect(formatTimestamp(62345, ".")).toBe("00:01:02.345");
+  });
+
+  it("widens the hour field beyond 99", () => {
+    expect(formatTimestamp(123 * 3600 * 1000 + 1)).toBe("123:00:00,001");
+  });
+
+  it("clamps negative and truncates fractional milliseconds", () => {
+    expect(formatTimestamp(-500)).toBe("00:00:00,000");
+    expect(formatTimestamp(1999.9)).toBe("00:00:01,999");
+  });
+
+  it("round-trips through parseTimestamp", () => {
+    for (const ms of [0, 1, 999, 59999, 3599999, 360000000]) {
+      expect(parseTimestamp(formatTimestamp(ms))).toBe(ms);
+      expect(parseTimestamp(formatTimestamp(ms, "."))).toBe(ms);
+    }
+  });
+});
@@ -0,0 +1,23 @@
+const TIMESTAMP_RE = /^(?:(\d+):)?(\d{1,2}):(\d{2})[,.](\d{1,3})$/;
+
+/** 毫秒 → `HH:MM:SS,mmm`（SRT）或 `HH:MM:SS.mmm`（VTT）。 */
+export function formatTimestamp(ms: number, separator: "," | "." = ","): string {
+  const totalMs = Math.max(0, Math.floor(ms));
+  const hours = Math.floor(totalMs / 3600000).toString().padStart(2, "0");
+  const minutes = Math.floor((totalMs % 3600000) / 60000).toString().padStart(2, "0");
+  const seconds = Math.floor((totalMs % 60000) / 1000).toString().padStart(2, "0");
+  const millis = (totalMs % 1000).toString().padStart(3, "0");
+  return `${hours}:${minutes}:${seconds}${separator}${millis}`;
+}
+
+/** 解析 `[HH:]MM:SS(,|.)mmm`，格式不合法时返回 null。 */
+export function parseTimestamp(raw: string): number | null {
+  const m = raw.trim().match(TIMESTAMP_RE);
+  if (!m) return null;
+  const hours = m[1] ? Number(m[1]) : 0;
+  const minutes = Number(m[2]);
+  const seconds = Number(m[3]);
+  if (minutes >= 60 || seconds >= 60) return null;
+  const millis = Number(m[4].padEnd(3, "0"));
+  return ((hours * 60 + minutes) * 60 + seconds) * 1000 + millis;
+}
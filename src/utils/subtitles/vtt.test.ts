@@ -0,0 +1,36 @@
+import { describe, expect, it } from "vitest";
+import { type Cue } from "./cue";
+import { parseVtt, serializeVtt } from "./vtt";
+
+describe("serializeVtt", () => {
+  it("escapes &, < and > in cue text but keeps the voice span raw", () => {
+    const cues: Cue[] = [{ index: 1, startMs: 0, endMs: 1000, lines: ["a < b && c > d", "x --> y"], speaker: "Alice" }];
+    expect(serializeVtt(cues)).toBe(
+      "WEBVTT\n\n00:00:00.000 --> 00:00:01.000\n<v Alice>a &lt; b &amp;&amp; c &gt; d\nx --&gt; y\n",
+    );
+  });
+
+  it("keeps whitelisted cue tags and escapes anything that only looks like one", () => {
+    const cues: Cue[] = [
+      { index: 1, startMs: 0, endMs: 1000, lines: ["<i>a</i> <lang en-GB>b</lang> <ruby>c<rt>d</rt></ruby> <script>x</script>"] },
+    ];
+    expect(serializeVtt(cues)).toContain(
+      "<i>a</i> <lang en-GB>b</lang> <ruby>c<rt>d</rt></ruby> &lt;script&gt;x&lt;/script&gt;",
+    );
+  });
+});
+
+describe("parseVtt", () => {
+  it("unescapes character references in cue text", () => {
+    const cues = parseVtt("WEBVTT\n\n00:00:01.000 --> 00:00:02.000\n<v Bob>Tom &amp; Jerry &lt;3 &amp;lt;\n");
+    expect(cues[0]).toMatchObject({ speaker: "Bob", lines: ["Tom & Jerry <3 &lt;"] });
+  });
+
+  it("round-trips cue tags and text containing markup characters", () => {
+    const cues: Cue[] = [
+      { index: 1, startMs: 1000, endMs: 2000, lines: ["<i>Hello</i> <c.yellow>world</c>", "&amp; literal"], speaker: "Carol" },
+      { index: 2, startMs: 2500, endMs: 3000, lines: ["1 > 0 <b>bold</b> <00:00:02.700>karaoke"] },
+    ];
+    expect(parseVtt(serializeVtt(cues))).toEqual(cues);
+  });
+});
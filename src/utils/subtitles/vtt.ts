@@ -0,0 +1,84 @@
+import { splitBlocks, parseTiming } from "./blocks";
+import { type Cue } from "./cue";
+import { SubtitleParseError } from "./errors";
+import { formatTimestamp } from "./time";
+
+const HEADER_RE = /^WEBVTT(?:[ \t].*)?$/;
+const SKIPPED_BLOCK_RE = /^(?:NOTE|STYLE|REGION)(?:[ \t]|$)/;
+// 只识别首行开头的 voice span，如 `<v Alice>` / `<v.loud Bob>`
+const VOICE_RE = /^<v(?:\.[^\s>]+)*[ \t]+([^>]+)>/;
+
+const ENTITIES: Record<string, string> = { "&amp;": "&", "&lt;": "<", "&gt;": ">" };
+
+// WebVTT 允许的 cue 标签（含 class / annotation）与时间戳标签，序列化时原样保留
+const CUE_TAG_RE = /<\/?(?:i|b|u|c|v|lang|ruby|rt)(?:\.[^\s<>]*)?(?:[ \t][^<>]*)?>|<(?:\d{2,}:)?\d{2}:\d{2}\.\d{3}>/g;
+
+function escapeBare(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+/** 只转义标签之外的 `&` / `<` / `>`。 */
+function escapeText(text: string): string {
+  let out = "";
+  let last = 0;
+  for (const match of text.matchAll(CUE_TAG_RE)) {
+    const at = match.index ?? 0;
+    out += escapeBare(text.slice(last, at)) + match[0];
+    last = at + match[0].length;
+  }
+  return out + escapeBare(text.slice(last));
+}
+
+function unescapeText(text: string): string {
+  return text.replace(/&(?:amp|lt|gt);/g, (m) => ENTITIES[m]);
+}
+
+function readVoice(lines: string[]): { speaker?: string; lines: string[] } {
+  const match = lines.length > 0 ? VOICE_RE.exec(lines[0]) : null;
+  if (!match) return { lines };
+  const stripped = [lines[0].slice(match[0].length), ...lines.slice(1)].map((l) => l.replace(/<\/v>/g, ""));
+  return { speaker: match[1].trim(), lines: stripped };
+}
+
+/**
+ * 解析 WebVTT。跳过文件头、NOTE / STYLE / REGION 块，
+ * cue 标识行可有可无，cue settings 原样保留在 `settings` 上，首行的 `<v 名字>` 读到 `speaker`，
+ * 文本中的 `&amp;` / `&lt;` / `&gt;` 还原为字符。
+ */
+export function parseVtt(input: string): Cue[] {
+  const blocks = splitBlocks(input);
+  if (blocks.length === 0 || blocks[0].startLine !== 1 || !HEADER_RE.test(blocks[0].lines[0])) {
+    throw new SubtitleParseError("缺少 WEBVTT 文件头", 1);
+  }
+  const cues: Cue[] = [];
+  for (const block of blocks.slice(1)) {
+    if (SKIPPED_BLOCK_RE.test(block.lines[0])) continue;
+    const cursor = block.lines[0].includes("-->") ? 0 : 1;
+    const timingLine = block.startLine + cursor;
+    const timing = cursor < block.lines.length ? parseTiming(block.lines[cursor], timingLine) : null;
+    if (!timing) {
+      throw new SubtitleParseError("缺少时间轴行（HH:MM:SS.mmm --> HH:MM:SS.mmm）", timingLine);
+    }
+    const { speaker, lines } = readVoice(block.lines.slice(cursor + 1).map((l) => l.trimEnd()));
+    cues.push({
+      index: cues.length + 1,
+      startMs: timing.startMs,
+      endMs: timing.endMs,
+      lines: lines.map(unescapeText),
+      ...(speaker ? { speaker } : {}),
+      ...(timing.settings ? { settings: timing.settings } : {}),
+    });
+  }
+  return cues;
+}
+
+export function serializeVtt(cues: Cue[]): string {
+  const body = cues.map((cue) => {
+    const timing = `${formatTimestamp(cue.startMs, ".")} --> ${formatTimestamp(cue.endMs, ".")}`;
+    // 标签外的标记字符一律转义，文本中因此不会再出现 "-->"
+    const text = cue.lines.map(escapeText).join("\n");
+    const voice = cue.speaker ? `<v ${cue.speaker.replace(/[<>&]/g, "")}>` : "";
+    return `${cue.settings ? `${timing} ${cue.settings}` : timing}\n${voice}${text}`;
+  });
+  return ["WEBVTT", ...body].join("\n\n") + "\n";
+}
@@ -0,0 +1,66 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { type Cue } from "@/utils/subtitles";
+import { BatchValidationError, buildPendingWindows, parseBatchResponse, translateWindow, type Complete } from "./batch";
+
+function cues(texts: string[]): Cue[] {
+  return texts.map((text, i) => ({ index: i + 1, startMs: i * 1000, endMs: i * 1000 + 900, lines: [text] }));
+}
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("parseBatchResponse", () => {
+  it("reads translations from fenced JSON or a bare array", () => {
+    const fenced = '```json\n{"translations":[{"id":1,"text":" 你好 "},{"id":2,"text":"世界"}]}\n```';
+    expect([...parseBatchResponse(fenced, [1, 2])]).toEqual([[1, "你好"], [2, "世界"]]);
+    expect([...parseBatchResponse('好的：[{"id":1,"text":"一"}]', [1])]).toEqual([[1, "一"]]);
+  });
+
+  it("rejects output without valid JSON or a translations array", () => {
+    expect(() => parseBatchResponse("抱歉，我无法翻译", [1])).toThrow(BatchValidationError);
+    expect(() => parseBatchResponse('{"translations":[{"id":1,', [1])).toThrow(BatchValidationError);
+    expect(() => parseBatchResponse('{"result":[]}', [1])).toThrow(/translations/);
+  });
+
+  it("rejects malformed, duplicate, missing and extra ids", () => {
+    expect(() => parseBatchResponse('[{"id":"x","text":"a"}]', [1])).toThrow(/格式错误/);
+    expect(() => parseBatchResponse('[{"id":1,"text":"a"},{"id":1,"text":"b"}]', [1])).toThrow(/重复/);
+    expect(() => parseBatchResponse('[{"id":1,"text":"a"},{"id":3,"text":"c"}]', [1, 2])).toThrow(/缺少 \[2\]，多出 \[3\]/);
+  });
+});
+
+describe("buildPendingWindows", () => {
+  it("covers only pending runs, at most size cues each", () => {
+    expect(buildPendingWindows([true, true, true, false, true, false, true, true], 2)).toEqual([
+      { start: 0, end: 2 },
+      { start: 2, end: 3 },
+      { start: 4, end: 5 },
+      { start: 6, end: 8 },
+    ]);
+  });
+});
+
+describe("translateWindow", () => {
+  it("translates the window in one batch with surrounding context", async () => {
+    const complete = vi.fn<Complete>(async () => '{"translations":[{"id":1,"text":"乙"},{"id":2,"text":""}]}');
+    const result = await translateWindow(cues(["a", "b", "c", "d"]), { start: 1, end: 3 }, { targetLanguage: "zh" }, complete);
+    expect(result).toEqual({ results: [{ text: "乙" }, { text: "c", fallback: true }], fallback: false });
+    expect(complete).toHaveBeenCalledTimes(1);
+    expect(complete.mock.calls[0][0]).toContain("上文（仅供参考，不要翻译）：\na");
+    expect(complete.mock.calls[0][0]).toContain("下文（仅供参考，不要翻译）：\nd");
+  });
+
+  it("falls back to per-cue calls and records per-cue failures", async () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const complete = vi.fn<Complete>(async (prompt) => {
+      if (prompt.includes("待翻译")) return "not json";
+      if (prompt.endsWith("\nbad")) throw new Error("boom");
+      return "译文";
+    });
+    const result = await translateWindow(cues(["good", "bad"]), { start: 0, end: 2 }, { targetLanguage: "zh" }, complete);
+    expect(result).toEqual({ results: [{ text: "译文" }, { error: "boom" }], fallback: true });
+    expect(complete).toHaveBeenCalledTimes(3);
+  });
+});
@@ -0,0 +1,149 @@
+import { type Cue, cueText } from "@/utils/subtitles";
+import { buildGlossaryPrompt, type GlossaryTerm } from "./glossary";
+
+export type TranslateOptions = { targetLanguage: string; note?: string; glossary?: GlossaryTerm[] };
+
+/** 给定 prompt 返回模型原始输出；由调用方决定走哪个 LLM。 */
+export type Complete = (prompt: string, maxTokens?: number) => Promise<string>;
+
+export type BatchWindow = { start: number; end: number };
+
+/** 单条结果：成功时带 text（模型输出为空而保留原文时 fallback 为 true），失败时带 error。 */
+export type CueResult = { text: string; fallback?: boolean; error?: undefined } | { text?: undefined; error: string };
+
+export type WindowResult = { results: CueResult[]; fallback: boolean };
+
+export class BatchValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "BatchValidationError";
+  }
+}
+
+export function buildBatchWindows(total: number, size: number, from = 0): BatchWindow[] {
+  const windows: BatchWindow[] = [];
+  for (let start = from; start < total; start += size) {
+    windows.push({ start, end: Math.min(total, start + size) });
+  }
+  return windows;
+}
+
+/** 只覆盖 pending[i] 为 true 的连续区间，每个窗口最多 size 条。 */
+export function buildPendingWindows(pending: boolean[], size: number): BatchWindow[] {
+  const windows: BatchWindow[] = [];
+  let start = -1;
+  for (let i = 0; i <= pending.length; i++) {
+    if (i < pending.length && pending[i]) {
+      if (start < 0) start = i;
+      if (i - start + 1 === size) {
+        windows.push({ start, end: i + 1 });
+        start = -1;
+      }
+    } else if (start >= 0) {
+      windows.push({ start, end: i });
+      start = -1;
+    }
+  }
+  return windows;
+}
+
+function toResult(text: string, source: string): CueResult {
+  return text ? { text } : { text: source, fallback: true };
+}
+
+function singlePrompt(text: string, options: TranslateOptions): string {
+  const glossary = buildGlossaryPrompt([text], options.glossary ?? []);
+  return `注意：只输出翻译后的句子，不需要任何解释。${options.note ? `\n补充背景：${options.note}` : ""}${glossary ? `\n${glossary}` : ""}\n把下面文本翻译成 ${options.targetLanguage}：\n${text}`;
+}
+
+export function buildBatchPrompt(
+  items: Array<{ id: number; text: string }>,
+  context: { before: string[]; after: string[] },
+  options: TranslateOptions
+): string {
+  const sections = [
+    [
+      `你是专业的字幕译者。把“待翻译”中的每条字幕翻译成 ${options.targetLanguage}。`,
+      "要求：",
+      "1. 结合上下文保持人名、代词、术语前后一致。",
+      "2. 一句话被拆在多条字幕里时，译文也按原编号拆开，不要合并、拆分或增删条目。",
+      '3. 只输出 JSON，不要任何解释，格式为 {"translations":[{"id":1,"text":"译文"}]}，id 必须与输入一一对应。',
+    ].join("\n"),
+  ];
+  if (options.note) sections.push(`补充背景：${options.note}`);
+  const glossary = buildGlossaryPrompt(items.map((item) => item.text), options.glossary ?? []);
+  if (glossary) sections.push(glossary);
+  if (context.before.length > 0) sections.push(`上文（仅供参考，不要翻译）：\n${context.before.join("\n")}`);
+  sections.push(`待翻译：\n${JSON.stringify(items)}`);
+  if (context.after.length > 0) sections.push(`下文（仅供参考，不要翻译）：\n${context.after.join("\n")}`);
+  return sections.join("\n\n");
+}
+
+/** 解析模型输出并校验 id 与输入完全一致，不一致时抛出 BatchValidationError。 */
+export function parseBatchResponse(raw: string, ids: number[]): Map<number, string> {
+  const body = raw.replace(/^\s*```(?:json)?\s*/i, "").replace(/\s*```\s*$/, "");
+  const first = body.search(/[[{]/);
+  if (first < 0) throw new BatchValidationError("模型输出中没有 JSON");
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(body.slice(first, Math.max(body.lastIndexOf("}"), body.lastIndexOf("]")) + 1));
+  } catch (e) {
+    throw new BatchValidationError(`模型输出 JSON 解析失败: ${(e as Error).message}`);
+  }
+  const list = Array.isArray(parsed) ? parsed : (parsed as { translations?: unknown })?.translations;
+  if (!Array.isArray(list)) throw new BatchValidationError("模型输出缺少 translations 数组");
+
+  const result = new Map<number, string>();
+  for (const item of list) {
+    const id = Number((item as { id?: unknown })?.id);
+    const text = (item as { text?: unknown })?.text;
+    if (!Number.isInteger(id) || typeof text !== "string") {
+      throw new BatchValidationError(`模型输出条目格式错误: ${JSON.stringify(item)}`);
+    }
+    if (result.has(id)) throw new BatchValidationError(`模型输出 id 重复: ${id}`);
+    result.set(id, text.trim());
+  }
+  const missing = ids.filter((id) => !result.has(id));
+  const extra = [...result.keys()].filter((id) => !ids.includes(id));
+  if (missing.length > 0 || extra.length > 0) {
+    throw new BatchValidationError(`模型输出 id 不匹配，缺少 [${missing.join(",")}]，多出 [${extra.join(",")}]`);
+  }
+  return result;
+}
+
+/**
+ * 翻译 cues[window.start, window.end)，前后各带 contextSize 条作为上下文。
+ * 整批校验失败时退回逐条翻译；单条也失败时记录错误，交由调用方决定如何处理。
+ */
+export async function translateWindow(
+  cues: Cue[],
+  window: BatchWindow,
+  options: TranslateOptions,
+  complete: Complete,
+  contextSize = 3
+): Promise<WindowResult> {
+  const slice = cues.slice(window.start, window.end);
+  const items = slice.map((cue, i) => ({ id: i + 1, text: cueText(cue) }));
+  const context = {
+    before: cues.slice(Math.max(0, window.start - contextSize), window.start).map(cueText),
+    after: cues.slice(window.end, window.end + contextSize).map(cueText),
+  };
+  try {
+    const raw = await complete(buildBatchPrompt(items, context, options), 4000);
+    const map = parseBatchResponse(raw, items.map((item) => item.id));
+    return { results: items.map((item) => toResult(map.get(item.id) ?? "", item.text)), fallback: false };
+  } catch (e) {
+    console.warn(`[translate] Batch ${window.start}-${window.end} failed, falling back to per-cue: `, e);
+  }
+  const results = await Promise.all(
+    items.map((item) =>
+      complete(singlePrompt(item.text, options))
+        .then((t) => toResult(t, item.text))
+        .catch((e: unknown): CueResult => {
+          console.error(`[translate] Error translating entry ${window.start + item.id - 1}: `, e);
+          return { error: e instanceof Error ? e.message : String(e) };
+        })
+    )
+  );
+  return { results, fallback: true };
+}
@@ -0,0 +1,81 @@
+import { describe, expect, it } from "vitest";
+import { type Cue } from "@/utils/subtitles";
+import {
+  buildGlossaryPrompt,
+  formatGlossaryText,
+  type Glossary,
+  matchTerms,
+  mergeGlossaryTerms,
+  parseGlossaryText,
+  verifyGlossary,
+} from "./glossary";
+
+function glossary(id: string, text: string): Glossary {
+  return { id, name: id, terms: parseGlossaryText(text), createdAt: 0, updatedAt: 0 };
+}
+
+describe("parseGlossaryText", () => {
+  it("parses translations, do-not-translate terms, case marks and comments", () => {
+    const text = "# 角色\nMadoka => 小圆\n!Soul Gem\nKyubey => 丘比 [Aa]\nbroken line\n=> 无源词";
+    expect(parseGlossaryText(text)).toEqual([
+      { source: "Madoka", target: "小圆" },
+      { source: "Soul Gem", target: "Soul Gem", doNotTranslate: true },
+      { source: "Kyubey", target: "丘比", caseSensitive: true },
+    ]);
+  });
+
+  it("round-trips through formatGlossaryText", () => {
+    const terms = parseGlossaryText("Madoka => 小圆\n!Soul Gem [Aa]\nKyubey => 丘比 [Aa]");
+    expect(parseGlossaryText(formatGlossaryText(terms))).toEqual(terms);
+  });
+});
+
+describe("matchTerms", () => {
+  const terms = parseGlossaryText("gem => 宝石\nKyubey => 丘比 [Aa]\n魔法少女 => magical girl");
+
+  it("matches Latin terms on word boundaries and CJK terms as substrings", () => {
+    expect(matchTerms("a gem shines", terms).map((t) => t.source)).toEqual(["gem"]);
+    expect(matchTerms("gemstone", terms)).toEqual([]);
+    expect(matchTerms("她是魔法少女吗", terms).map((t) => t.source)).toEqual(["魔法少女"]);
+  });
+
+  it("honours case sensitivity", () => {
+    expect(matchTerms("GEM and kyubey", terms).map((t) => t.source)).toEqual(["gem"]);
+    expect(matchTerms("Kyubey", terms).map((t) => t.source)).toEqual(["Kyubey"]);
+  });
+});
+
+describe("mergeGlossaryTerms", () => {
+  it("keeps the first glossary's entry for a repeated source", () => {
+    const merged = mergeGlossaryTerms([glossary("a", "Madoka => 小圆"), glossary("b", "madoka => 圆\nHomura => 晓美焰")]);
+    expect(merged).toEqual([
+      { source: "Madoka", target: "小圆" },
+      { source: "Homura", target: "晓美焰" },
+    ]);
+  });
+});
+
+describe("buildGlossaryPrompt", () => {
+  it("lists only the terms that appear in the texts", () => {
+    const terms = parseGlossaryText("Madoka => 小圆\n!Soul Gem\nHomura => 晓美焰");
+    expect(buildGlossaryPrompt(["Madoka holds a Soul Gem"], terms)).toBe(
+      "术语表（必须遵守）：\n- Madoka → 小圆\n- Soul Gem（保留原文，不要翻译）",
+    );
+    expect(buildGlossaryPrompt(["nobody"], terms)).toBe("");
+  });
+});
+
+describe("verifyGlossary", () => {
+  it("reports translated cues that miss the required rendering", () => {
+    const terms = parseGlossaryText("Madoka => 小圆\n!Soul Gem");
+    const cues: Cue[] = [
+      { index: 1, startMs: 0, endMs: 1000, lines: ["Madoka!"], translation: ["小圆！"] },
+      { index: 2, startMs: 1000, endMs: 2000, lines: ["Madoka's Soul Gem"], translation: ["圆的灵魂宝石"] },
+      { index: 3, startMs: 2000, endMs: 3000, lines: ["Madoka"] },
+    ];
+    expect(verifyGlossary(cues, terms)).toEqual([
+      { index: 2, source: "Madoka", expected: "小圆" },
+      { index: 2, source: "Soul Gem", expected: "Soul Gem" },
+    ]);
+  });
+});
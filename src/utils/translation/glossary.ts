@@ -0,0 +1,112 @@
+import { type Cue, cueText } from "@/utils/subtitles";
+
+export type GlossaryTerm = {
+  source: string;
+  /** 不翻译的条目 target 与 source 相同。 */
+  target: string;
+  caseSensitive?: boolean;
+  doNotTranslate?: boolean;
+};
+
+export type Glossary = {
+  id: string;
+  name: string;
+  terms: GlossaryTerm[];
+  createdAt: number;
+  updatedAt: number;
+};
+
+export type GlossarySummary = { id: string; name: string; termCount: number; updatedAt: number };
+
+export type GlossaryViolation = { index: number; source: string; expected: string };
+
+const CASE_MARK = "[Aa]";
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/** 纯拉丁词按词边界匹配，其余（如中日文）按子串匹配。 */
+function termPattern(term: string, caseSensitive: boolean | undefined): RegExp {
+  const body = escapeRegExp(term);
+  const bounded = /^[\w\s'-]+$/.test(term) ? `\\b${body}\\b` : body;
+  return new RegExp(bounded, caseSensitive ? "u" : "iu");
+}
+
+/**
+ * 解析面板里的文本格式，每行一条：
+ * `源词 => 译词`，末尾加 `[Aa]` 表示区分大小写；`!源词` 表示保留原文不翻译；`#` 开头为注释。
+ */
+export function parseGlossaryText(text: string): GlossaryTerm[] {
+  const terms: GlossaryTerm[] = [];
+  for (const rawLine of text.split(/\r?\n/)) {
+    let line = rawLine.trim();
+    if (!line || line.startsWith("#")) continue;
+    const caseSensitive = line.endsWith(CASE_MARK);
+    if (caseSensitive) line = line.slice(0, -CASE_MARK.length).trim();
+    if (line.startsWith("!")) {
+      const source = line.slice(1).trim();
+      if (source) terms.push({ source, target: source, doNotTranslate: true, ...(caseSensitive ? { caseSensitive } : {}) });
+      continue;
+    }
+    const [source, target] = line.split("=>").map((part) => part?.trim() ?? "");
+    if (!source || !target) continue;
+    terms.push({ source, target, ...(caseSensitive ? { caseSensitive } : {}) });
+  }
+  return terms;
+}
+
+export function formatGlossaryText(terms: GlossaryTerm[]): string {
+  return terms
+    .map((t) => `${t.doNotTranslate ? `!${t.source}` : `${t.source} => ${t.target}`}${t.caseSensitive ? ` ${CASE_MARK}` : ""}`)
+    .join("\n");
+}
+
+/** 合并多个术语表；同一源词以靠前的为准。 */
+export function mergeGlossaryTerms(glossaries: Glossary[]): GlossaryTerm[] {
+  const seen = new Set<string>();
+  const merged: GlossaryTerm[] = [];
+  for (const glossary of glossaries) {
+    for (const term of glossary.terms) {
+      const key = term.caseSensitive ? term.source : term.source.toLowerCase();
+      if (seen.has(key)) continue;
+      seen.add(key);
+      merged.push(term);
+    }
+  }
+  return merged;
+}
+
+export function matchTerms(text: string, terms: GlossaryTerm[]): GlossaryTerm[] {
+  return terms.filter((t) => termPattern(t.source, t.caseSensitive).test(text));
+}
+
+/** 生成注入 prompt 的术语段落；没有命中的术语时返回空串。 */
+export function buildGlossaryPrompt(texts: string[], terms: GlossaryTerm[]): string {
+  const hits = matchTerms(texts.join("\n"), terms);
+  if (hits.length === 0) return "";
+  const lines = hits.map((t) =>
+    t.doNotTranslate
+      ? `- ${t.source}（保留原文，不要翻译）`
+      : `- ${t.source} → ${t.target}${t.caseSensitive ? "（区分大小写）" : ""}`
+  );
+  return `术语表（必须遵守）：\n${lines.join("\n")}`;
+}
+
+/** 原文命中术语、但译文里没有出现要求译法的条目。 */
+export function verifyGlossary(cues: Cue[], terms: GlossaryTerm[]): GlossaryViolation[] {
+  if (terms.length === 0) return [];
+  const violations: GlossaryViolation[] = [];
+  for (const cue of cues) {
+    if (!cue.translation) continue;
+    const translated = cue.translation.join("\n");
+    for (const term of matchTerms(cueText(cue), terms)) {
+      const expected = term.target;
+      const found = term.caseSensitive
+        ? translated.includes(expected)
+        : translated.toLowerCase().includes(expected.toLowerCase());
+      if (!found) violations.push({ index: cue.index, source: term.source, expected });
+    }
+  }
+  return violations;
+}
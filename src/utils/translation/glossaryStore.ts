@@ -0,0 +1,69 @@
+import { type Glossary, type GlossarySummary, type GlossaryTerm } from "./glossary";
+
+const PREFIX = "glossaries/";
+
+export function glossaryKey(id: string): string {
+  return `${PREFIX}${id}.json`;
+}
+
+export async function listGlossaries(bucket: R2Bucket): Promise<GlossarySummary[]> {
+  const summaries: GlossarySummary[] = [];
+  let cursor: string | undefined;
+  do {
+    const page = await bucket.list({ prefix: PREFIX, cursor, include: ["customMetadata"] });
+    for (const obj of page.objects) {
+      const meta = obj.customMetadata ?? {};
+      summaries.push({
+        id: obj.key.slice(PREFIX.length).replace(/\.json$/, ""),
+        name: meta.name ?? "",
+        termCount: Number(meta.termCount ?? 0),
+        updatedAt: Number(meta.updatedAt ?? obj.uploaded.getTime()),
+      });
+    }
+    cursor = page.truncated ? page.cursor : undefined;
+  } while (cursor);
+  return summaries.sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+export async function getGlossary(bucket: R2Bucket, id: string): Promise<Glossary | null> {
+  const obj = await bucket.get(glossaryKey(id));
+  if (!obj) return null;
+  return JSON.parse(await obj.text()) as Glossary;
+}
+
+export async function putGlossary(bucket: R2Bucket, glossary: Glossary): Promise<void> {
+  await bucket.put(glossaryKey(glossary.id), JSON.stringify(glossary), {
+    httpMetadata: { contentType: "application/json" },
+    // 列表页只读 customMetadata，避免逐个拉取正文
+    customMetadata: {
+      name: glossary.name,
+      termCount: String(glossary.terms.length),
+      updatedAt: String(glossary.updatedAt),
+    },
+  });
+}
+
+export async function deleteGlossary(bucket: R2Bucket, id: string): Promise<void> {
+  await bucket.delete(glossaryKey(id));
+}
+
+/** 校验请求体里的术语数组，过滤掉不完整的条目。 */
+export function sanitizeTerms(input: unknown): GlossaryTerm[] {
+  if (!Array.isArray(input)) return [];
+  const terms: GlossaryTerm[] = [];
+  for (const raw of input) {
+    const item = raw as Partial<GlossaryTerm> | null;
+    const source = typeof item?.source === "string" ? item.source.trim() : "";
+    if (!source) continue;
+    const doNotTranslate = item?.doNotTranslate === true;
+    const target = doNotTranslate ? source : typeof item?.target === "string" ? item.target.trim() : "";
+    if (!target) continue;
+    terms.push({
+      source,
+      target,
+      ...(item?.caseSensitive === true ? { caseSensitive: true } : {}),
+      ...(doNotTranslate ? { doNotTranslate: true } : {}),
+    });
+  }
+  return terms;
+}
@@ -0,0 +1,99 @@
+import { expiryMetadata, JOB_TTL_MS } from "@/utils/retention";
+import { type Cue, type OutputMode, serializeSrt, applyOutputMode, textToLines } from "@/utils/subtitles";
+import { type GlossaryTerm, type GlossaryViolation, verifyGlossary } from "./glossary";
+import { type ProviderId } from "./providers";
+import { type TokenBucketState } from "./rateLimit";
+
+/** fallback 表示模型没给出译文而保留了原文；failed 的条目不写 dst，可以通过重试接口重新排队。 */
+export type TranslateEntryStatus = "pending" | "ok" | "failed" | "fallback";
+
+export type TranslateJobEntry = { cue: Cue; dst?: string; status?: TranslateEntryStatus; error?: string; attempts?: number };
+
+export type TranslateFailure = { index: number; error: string; attempts: number };
+
+export type TranslateJob = {
+  createdAt: number;
+  targetLanguage: string;
+  note?: string;
+  /** 提交时选中的术语表 id，以及合并后的术语快照（之后编辑术语表不影响已提交的任务）。 */
+  glossaryIds?: string[];
+  glossary?: GlossaryTerm[];
+  /** 依次尝试的翻译供应商；旧任务没有该字段时使用默认供应商。 */
+  providers?: ProviderId[];
+  entries: TranslateJobEntry[];
+  /** 按任务限速的令牌桶状态，跨轮询保存。 */
+  rateLimit?: TokenBucketState;
+  cursor: number;
+  completed: boolean;
+  total: number;
+  /** 整个任务无法继续时的原因（如供应商未配置），此时 completed 也为 true。 */
+  error?: string;
+};
+
+export function translateJobKey(jobId: string): string {
+  return `translate-jobs/${jobId}.json`;
+}
+
+export async function getTranslateJob(bucket: R2Bucket, jobId: string): Promise<TranslateJob | null> {
+  const obj = await bucket.get(translateJobKey(jobId));
+  if (!obj) return null;
+  return JSON.parse(await obj.text()) as TranslateJob;
+}
+
+export async function putTranslateJob(bucket: R2Bucket, jobId: string, job: TranslateJob): Promise<void> {
+  await bucket.put(translateJobKey(jobId), JSON.stringify(job), {
+    httpMetadata: { contentType: "application/json" },
+    // 每次写入顺延，进行中的任务不会被清理
+    customMetadata: expiryMetadata(JOB_TTL_MS),
+  });
+}
+
+export async function deleteTranslateJob(bucket: R2Bucket, jobId: string): Promise<void> {
+  await bucket.delete(translateJobKey(jobId));
+}
+
+/** 原文留在 `lines`，译文挂到 `translation`；尚无译文的条目不带 translation。 */
+export function jobCues(job: TranslateJob): Cue[] {
+  return job.entries.map((e) => (e.dst ? { ...e.cue, translation: textToLines(e.dst) } : e.cue));
+}
+
+/** 旧任务的条目没有 status，按 dst / error 推断。 */
+export function entryStatus(entry: TranslateJobEntry): TranslateEntryStatus {
+  if (entry.status) return entry.status;
+  if (entry.error !== undefined) return "failed";
+  return entry.dst !== undefined ? "ok" : "pending";
+}
+
+export function jobStatusCounts(job: TranslateJob): Record<TranslateEntryStatus, number> {
+  const counts = { pending: 0, ok: 0, failed: 0, fallback: 0 };
+  for (const e of job.entries) counts[entryStatus(e)]++;
+  return counts;
+}
+
+export function jobFailures(job: TranslateJob): TranslateFailure[] {
+  return job.entries
+    .filter((e) => entryStatus(e) === "failed")
+    .map((e) => ({ index: e.cue.index, error: e.error ?? "", attempts: e.attempts ?? 0 }));
+}
+
+/** 把失败条目重置为 pending 并重新打开任务，返回重新排队的条数。 */
+export function requeueFailed(job: TranslateJob): number {
+  let requeued = 0;
+  job.entries.forEach((e, i) => {
+    if (entryStatus(e) !== "failed") return;
+    e.status = "pending";
+    e.error = undefined;
+    job.cursor = Math.min(job.cursor, i);
+    requeued++;
+  });
+  if (requeued > 0) job.completed = false;
+  return requeued;
+}
+
+export function jobGlossaryViolations(job: TranslateJob): GlossaryViolation[] {
+  return verifyGlossary(jobCues(job), job.glossary ?? []);
+}
+
+export function jobToSrt(job: TranslateJob, mode: OutputMode = "translated"): string {
+  return serializeSrt(applyOutputMode(jobCues(job), mode));
+}
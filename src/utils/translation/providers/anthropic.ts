@@ -0,0 +1,30 @@
+import { postJson, readTextContent } from "./http";
+import { type TranslationProvider } from "./types";
+
+type AnthropicMessagesResponse = { content?: unknown };
+
+const ANTHROPIC_VERSION = "2023-06-01";
+
+/** Anthropic Messages API（/v1/messages）。 */
+export const anthropicProvider: TranslationProvider = {
+  id: "anthropic",
+  label: "Anthropic",
+  requiredEnv: ["ANTHROPIC_API_KEY", "ANTHROPIC_MODEL"],
+  settings(env) {
+    if (!env.ANTHROPIC_API_KEY || !env.ANTHROPIC_MODEL) return null;
+    const base = (env.ANTHROPIC_BASE_URL || "https://api.anthropic.com").replace(/\/$/, "");
+    return {
+      endpoint: base.endsWith("/v1/messages") ? base : `${base}/v1/messages`,
+      apiKey: env.ANTHROPIC_API_KEY,
+      model: env.ANTHROPIC_MODEL,
+    };
+  },
+  async complete(settings, prompt, maxTokens) {
+    const data = (await postJson(
+      settings.endpoint,
+      { "x-api-key": settings.apiKey, "anthropic-version": ANTHROPIC_VERSION },
+      { model: settings.model, max_tokens: maxTokens, messages: [{ role: "user", content: prompt }] }
+    )) as AnthropicMessagesResponse | null;
+    return readTextContent(data?.content);
+  },
+};
@@ -0,0 +1,38 @@
+import { postJson, readTextContent } from "./http";
+import { type TranslationProvider } from "./types";
+
+type ArkChatRequest = {
+  model: string;
+  messages: Array<{ role: "user"; content: Array<{ type: "text"; text: string }> }>;
+  max_completion_tokens?: number;
+};
+
+type ArkChatResponse = { choices?: Array<{ message?: { content?: unknown } }> };
+
+export function resolveCompletionsEndpoint(raw: string | undefined): string {
+  const trimmed = (raw || "").replace(/\/$/, "");
+  if (!trimmed) return "https://ark.cn-beijing.volces.com/api/v3/chat/completions";
+  if (trimmed.includes("/api/")) return trimmed;
+  if (/ark\.cn-beijing\.volces\.com$/i.test(trimmed)) return `${trimmed}/api/v3/chat/completions`;
+  return trimmed;
+}
+
+/** 火山方舟，沿用原有的 LLM_* 变量。 */
+export const arkProvider: TranslationProvider = {
+  id: "ark",
+  label: "火山方舟",
+  requiredEnv: ["LLM_API_KEY", "LLM_MODEL"],
+  settings(env) {
+    if (!env.LLM_API_KEY || !env.LLM_MODEL) return null;
+    return { endpoint: resolveCompletionsEndpoint(env.LLM_ENDPOINT), apiKey: env.LLM_API_KEY, model: env.LLM_MODEL };
+  },
+  async complete(settings, prompt, maxTokens) {
+    const payload: ArkChatRequest = {
+      model: settings.model,
+      messages: [{ role: "user", content: [{ type: "text", text: prompt }] }],
+      max_completion_tokens: maxTokens,
+    };
+    const data = (await postJson(settings.endpoint, { Authorization: `Bearer ${settings.apiKey}` }, payload)) as ArkChatResponse | null;
+    return readTextContent(data?.choices?.[0]?.message?.content);
+  },
+};
@@ -0,0 +1,58 @@
+export class LlmHttpError extends Error {
+  readonly status: number;
+  /** 服务端通过 Retry-After / retry-after-ms 要求的等待时长。 */
+  readonly retryAfterMs?: number;
+
+  constructor(status: number, body: string, retryAfterMs?: number) {
+    super(`LLM 调用失败: ${status} ${body}`);
+    this.name = "LlmHttpError";
+    this.status = status;
+    this.retryAfterMs = retryAfterMs;
+  }
+
+  get retryable(): boolean {
+    return this.status === 408 || this.status === 409 || this.status === 425 || this.status === 429 || this.status >= 500;
+  }
+}
+
+/** 支持 `retry-after-ms`、秒数与 HTTP 日期三种写法。 */
+export function parseRetryAfter(headers: Headers, now = Date.now()): number | undefined {
+  const ms = Number(headers.get("retry-after-ms"));
+  if (headers.has("retry-after-ms") && Number.isFinite(ms) && ms >= 0) return ms;
+  const raw = headers.get("retry-after");
+  if (!raw) return undefined;
+  const seconds = Number(raw);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(raw);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/** POST JSON 并解析响应；非 2xx 时抛出 LlmHttpError 并带上响应正文。 */
+export async function postJson(url: string, headers: Record<string, string>, body: unknown): Promise<unknown> {
+  const resp = await fetch(url, {
+    method: "POST",
+    headers: { "content-type": "application/json", ...headers },
+    body: JSON.stringify(body),
+  });
+  const raw = await resp.text().catch(() => "");
+  if (!resp.ok) throw new LlmHttpError(resp.status, raw, parseRetryAfter(resp.headers));
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return null;
+  }
+}
+
+/** 兼容字符串与 `[{ type: "text", text }]` 两种 content 形态。 */
+export function readTextContent(content: unknown): string {
+  if (typeof content === "string") return content.trim();
+  const list: unknown[] = Array.isArray(content) ? content : [];
+  return list
+    .map((c) => {
+      if (!c || typeof c !== "object") return "";
+      const block = c as { type?: string; text?: unknown };
+      return block.type === "text" && typeof block.text === "string" ? block.text : "";
+    })
+    .join("\n")
+    .trim();
+}
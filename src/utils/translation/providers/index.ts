@@ -0,0 +1,70 @@
+import { type Complete } from "../batch";
+import { type TokenBucket } from "../rateLimit";
+import { anthropicProvider } from "./anthropic";
+import { arkProvider } from "./ark";
+import { openaiProvider } from "./openai";
+import { withRetry } from "./retry";
+import { type ProviderId, type TranslationProvider } from "./types";
+
+export type { ProviderId, ProviderSettings, TranslationProvider } from "./types";
+
+export const TRANSLATION_PROVIDERS: Record<ProviderId, TranslationProvider> = {
+  ark: arkProvider,
+  openai: openaiProvider,
+  anthropic: anthropicProvider,
+};
+
+export const DEFAULT_PROVIDER: ProviderId = "ark";
+
+export type ProviderInfo = { id: ProviderId; label: string; configured: boolean };
+
+export function isProviderId(value: unknown): value is ProviderId {
+  return typeof value === "string" && value in TRANSLATION_PROVIDERS;
+}
+
+export function isProviderConfigured(env: CloudflareEnv, id: ProviderId): boolean {
+  return TRANSLATION_PROVIDERS[id].settings(env) !== null;
+}
+
+export function listProviders(env: CloudflareEnv): ProviderInfo[] {
+  return Object.values(TRANSLATION_PROVIDERS).map((p) => ({ id: p.id, label: p.label, configured: isProviderConfigured(env, p.id) }));
+}
+
+/**
+ * 按顺序尝试各供应商，前一个重试耗尽后切到下一个；未配置的供应商直接跳过。
+ * 传入 limiter 时每次请求（含重试）都先取令牌。一个都没配置时返回 null。
+ */
+export function createCompleter(env: CloudflareEnv, ids: ProviderId[], limiter?: TokenBucket): Complete | null {
+  const chain = ids
+    .map((id) => ({ provider: TRANSLATION_PROVIDERS[id], settings: TRANSLATION_PROVIDERS[id].settings(env) }))
+    .filter((item) => item.settings !== null);
+  if (chain.length === 0) return null;
+  return async (prompt, maxTokens = 2000) => {
+    let lastError: unknown;
+    for (const { provider, settings } of chain) {
+      try {
+        return await withRetry(provider.id, async () => {
+          await limiter?.take();
+          return provider.complete(settings!, prompt, maxTokens);
+        });
+      } catch (e) {
+        lastError = e;
+        console.warn(`[translate] Provider ${provider.id} failed: `, e);
+      }
+    }
+    throw lastError;
+  };
+}
+
+/** 面板选中的主供应商在前；开启 failover 时把其余已配置的供应商依次接在后面。 */
+export function resolveProviderChain(env: CloudflareEnv, requested: unknown, failover: boolean): ProviderId[] {
+  const fallback = isProviderId(env.LLM_PROVIDER) ? env.LLM_PROVIDER : DEFAULT_PROVIDER;
+  const primary = isProviderId(requested) ? requested : fallback;
+  if (!failover) return [primary];
+  const others = listProviders(env).filter((p) => p.configured && p.id !== primary).map((p) => p.id);
+  return [primary, ...others];
+}
+
+export function missingProviderEnv(ids: ProviderId[]): string {
+  return ids.map((id) => `${TRANSLATION_PROVIDERS[id].label}: ${TRANSLATION_PROVIDERS[id].requiredEnv.join(" / ")}`).join("；");
+}
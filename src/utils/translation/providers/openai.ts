@@ -0,0 +1,28 @@
+import { postJson, readTextContent } from "./http";
+import { type TranslationProvider } from "./types";
+
+type OpenAIChatResponse = { choices?: Array<{ message?: { content?: unknown } }> };
+
+/** 任意 OpenAI 兼容的 /chat/completions（OpenAI、DeepSeek、本地 vLLM 等）。 */
+export const openaiProvider: TranslationProvider = {
+  id: "openai",
+  label: "OpenAI 兼容",
+  requiredEnv: ["OPENAI_API_KEY", "OPENAI_MODEL"],
+  settings(env) {
+    if (!env.OPENAI_API_KEY || !env.OPENAI_MODEL) return null;
+    const base = (env.OPENAI_BASE_URL || "https://api.openai.com/v1").replace(/\/$/, "");
+    return {
+      endpoint: base.endsWith("/chat/completions") ? base : `${base}/chat/completions`,
+      apiKey: env.OPENAI_API_KEY,
+      model: env.OPENAI_MODEL,
+    };
+  },
+  async complete(settings, prompt, maxTokens) {
+    const data = (await postJson(
+      settings.endpoint,
+      { Authorization: `Bearer ${settings.apiKey}` },
+      { model: settings.model, messages: [{ role: "user", content: prompt }], max_tokens: maxTokens }
+    )) as OpenAIChatResponse | null;
+    return readTextContent(data?.choices?.[0]?.message?.content);
+  },
+};
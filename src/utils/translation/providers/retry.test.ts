@@ -0,0 +1,82 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { LlmHttpError, parseRetryAfter } from "./http";
+import { withRetry } from "./retry";
+
+describe("parseRetryAfter", () => {
+  const now = Date.parse("2025-01-01T00:00:00Z");
+
+  it("prefers retry-after-ms, then seconds, then an HTTP date", () => {
+    expect(parseRetryAfter(new Headers({ "retry-after-ms": "250", "retry-after": "9" }), now)).toBe(250);
+    expect(parseRetryAfter(new Headers({ "retry-after": "3" }), now)).toBe(3000);
+    expect(parseRetryAfter(new Headers({ "retry-after": "Wed, 01 Jan 2025 00:00:05 GMT" }), now)).toBe(5000);
+  });
+
+  it("clamps past dates and ignores garbage", () => {
+    expect(parseRetryAfter(new Headers({ "retry-after": "Tue, 31 Dec 2024 23:00:00 GMT" }), now)).toBe(0);
+    expect(parseRetryAfter(new Headers({ "retry-after": "soon" }), now)).toBeUndefined();
+    expect(parseRetryAfter(new Headers(), now)).toBeUndefined();
+  });
+});
+
+describe("LlmHttpError.retryable", () => {
+  it("retries 408, 409, 425, 429 and 5xx only", () => {
+    expect([400, 401, 404, 408, 409, 425, 429, 500, 503].filter((s) => new LlmHttpError(s, "").retryable)).toEqual([
+      408, 409, 425, 429, 500, 503,
+    ]);
+  });
+});
+
+describe("withRetry", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it("retries retryable failures until one succeeds", async () => {
+    const run = vi
+      .fn<() => Promise<string>>()
+      .mockRejectedValueOnce(new LlmHttpError(503, "busy"))
+      .mockRejectedValueOnce(new TypeError("fetch failed"))
+      .mockResolvedValue("ok");
+    const result = withRetry("test", run);
+    await vi.runAllTimersAsync();
+    await expect(result).resolves.toBe("ok");
+    expect(run).toHaveBeenCalledTimes(3);
+  });
+
+  it("fails immediately on a non-retryable status", async () => {
+    const run = vi.fn<() => Promise<string>>().mockRejectedValue(new LlmHttpError(400, "bad request"));
+    await expect(withRetry("test", run)).rejects.toMatchObject({ status: 400 });
+    expect(run).toHaveBeenCalledTimes(1);
+  });
+
+  it("gives up instead of waiting out a long Retry-After", async () => {
+    const run = vi.fn<() => Promise<string>>().mockRejectedValue(new LlmHttpError(429, "slow down", 60000));
+    await expect(withRetry("test", run)).rejects.toMatchObject({ status: 429 });
+    expect(run).toHaveBeenCalledTimes(1);
+  });
+
+  it("waits at least the Retry-After before the next attempt", async () => {
+    const run = vi.fn<() => Promise<string>>().mockRejectedValueOnce(new LlmHttpError(429, "slow down", 20000)).mockResolvedValue("ok");
+    const result = withRetry("test", run);
+    await vi.advanceTimersByTimeAsync(19000);
+    expect(run).toHaveBeenCalledTimes(1);
+    await vi.runAllTimersAsync();
+    await expect(result).resolves.toBe("ok");
+    expect(run).toHaveBeenCalledTimes(2);
+  });
+
+  it("stops after the configured number of retries", async () => {
+    const run = vi.fn<() => Promise<string>>().mockRejectedValue(new LlmHttpError(500, "down"));
+    const result = withRetry("test", run, 2);
+    const settled = expect(result).rejects.toMatchObject({ status: 500 });
+    await vi.runAllTimersAsync();
+    await settled;
+    expect(run).toHaveBeenCalledTimes(3);
+  });
+});
@@ -0,0 +1,38 @@
+import pRetry, { AbortError } from "p-retry";
+import { LlmHttpError } from "./http";
+
+const sleep = (ms: number) => new Promise<void>((r) => setTimeout(r, ms));
+
+// Retry-After 超过该值时不再原地等待，直接失败交给后续重试
+const MAX_RETRY_AFTER_MS = 30000;
+
+/**
+ * 指数退避重试：429 / 5xx / 网络错误会重试，其余 4xx 立即失败。
+ * 服务端给了 Retry-After 时至少等待这么久。
+ */
+export function withRetry<T>(label: string, run: () => Promise<T>, retries = 4): Promise<T> {
+  return pRetry(
+    async () => {
+      try {
+        return await run();
+      } catch (e) {
+        if (e instanceof LlmHttpError && (!e.retryable || (e.retryAfterMs ?? 0) > MAX_RETRY_AFTER_MS)) {
+          throw new AbortError(e);
+        }
+        throw e;
+      }
+    },
+    {
+      retries,
+      factor: 2,
+      minTimeout: 1000,
+      maxTimeout: 16000,
+      randomize: true,
+      onFailedAttempt: async (error) => {
+        console.warn(`[translate] ${label} attempt ${error.attemptNumber} failed (${error.retriesLeft} left): ${error.message}`);
+        const retryAfterMs = error instanceof LlmHttpError ? error.retryAfterMs : undefined;
+        if (retryAfterMs && error.retriesLeft > 0) await sleep(retryAfterMs);
+      },
+    }
+  );
+}
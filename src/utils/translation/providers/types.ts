@@ -0,0 +1,13 @@
+export type ProviderId = "ark" | "openai" | "anthropic";
+
+export type ProviderSettings = { endpoint: string; apiKey: string; model: string };
+
+export type TranslationProvider = {
+  id: ProviderId;
+  label: string;
+  /** 必需的环境变量名，用于报错提示。 */
+  requiredEnv: string[];
+  /** 从环境变量读取配置；缺少必需项时返回 null。 */
+  settings(env: CloudflareEnv): ProviderSettings | null;
+  complete(settings: ProviderSettings, prompt: string, maxTokens: number): Promise<string>;
+};
@@ -0,0 +1,48 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { readRateLimit, TokenBucket } from "./rateLimit";
+
+describe("TokenBucket", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(0);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("allows a burst up to capacity, then waits for refill", async () => {
+    const bucket = new TokenBucket(2, 60);
+    await bucket.take();
+    await bucket.take();
+    let taken = false;
+    const third = bucket.take().then(() => {
+      taken = true;
+    });
+    await vi.advanceTimersByTimeAsync(999);
+    expect(taken).toBe(false);
+    await vi.advanceTimersByTimeAsync(1);
+    await third;
+    expect(taken).toBe(true);
+  });
+
+  it("refills over time without exceeding capacity", async () => {
+    const bucket = new TokenBucket(3, 60, { tokens: 0, updatedAt: 0 });
+    vi.setSystemTime(60000);
+    await bucket.take();
+    expect(bucket.snapshot()).toEqual({ tokens: 2, updatedAt: 60000 });
+  });
+
+  it("resumes from a snapshot and clamps it to capacity", () => {
+    expect(new TokenBucket(2, 60, { tokens: 0.5, updatedAt: 123 }).snapshot()).toEqual({ tokens: 0.5, updatedAt: 123 });
+    expect(new TokenBucket(2, 60, { tokens: 10, updatedAt: 0 }).snapshot().tokens).toBe(2);
+  });
+});
+
+describe("readRateLimit", () => {
+  it("defaults to 60 per minute and bursts a quarter of the quota", () => {
+    expect(readRateLimit({} as CloudflareEnv)).toEqual({ capacity: 15, perMinute: 60 });
+    expect(readRateLimit({ TRANSLATE_RATE_LIMIT_RPM: "0" } as CloudflareEnv)).toEqual({ capacity: 15, perMinute: 60 });
+    expect(readRateLimit({ TRANSLATE_RATE_LIMIT_RPM: "2" } as CloudflareEnv)).toEqual({ capacity: 1, perMinute: 2 });
+  });
+});
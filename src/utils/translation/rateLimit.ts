@@ -0,0 +1,50 @@
+export type TokenBucketState = { tokens: number; updatedAt: number };
+
+const sleep = (ms: number) => new Promise<void>((r) => setTimeout(r, ms));
+
+/**
+ * 令牌桶：容量 capacity，每分钟补充 perMinute 个。
+ * 状态可序列化，便于写回任务 JSON，跨多次轮询保持同一个任务的限速。
+ */
+export class TokenBucket {
+  private tokens: number;
+  private updatedAt: number;
+
+  constructor(
+    private readonly capacity: number,
+    private readonly perMinute: number,
+    state?: TokenBucketState
+  ) {
+    this.tokens = state ? Math.min(capacity, state.tokens) : capacity;
+    this.updatedAt = state?.updatedAt ?? Date.now();
+  }
+
+  private refill(now: number) {
+    const elapsed = Math.max(0, now - this.updatedAt);
+    this.tokens = Math.min(this.capacity, this.tokens + (elapsed * this.perMinute) / 60000);
+    this.updatedAt = now;
+  }
+
+  /** 取一个令牌，不够时等待补充。 */
+  async take(): Promise<void> {
+    for (;;) {
+      this.refill(Date.now());
+      if (this.tokens >= 1) {
+        this.tokens -= 1;
+        return;
+      }
+      await sleep(Math.ceil(((1 - this.tokens) * 60000) / this.perMinute));
+    }
+  }
+
+  snapshot(): TokenBucketState {
+    return { tokens: this.tokens, updatedAt: this.updatedAt };
+  }
+}
+
+export function readRateLimit(env: CloudflareEnv): { capacity: number; perMinute: number } {
+  const perMinute = Number(env.TRANSLATE_RATE_LIMIT_RPM);
+  const valid = Number.isFinite(perMinute) && perMinute > 0 ? perMinute : 60;
+  // 允许短时突发到每分钟额度的四分之一
+  return { capacity: Math.max(1, Math.ceil(valid / 4)), perMinute: valid };
+}
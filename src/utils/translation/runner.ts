@@ -0,0 +1,103 @@
+import { DurableObject } from "cloudflare:workers";
+import { buildPendingWindows, translateWindow } from "./batch";
+import { type TranslateJob, deleteTranslateJob, entryStatus, getTranslateJob, putTranslateJob, requeueFailed } from "./job";
+import { createCompleter, DEFAULT_PROVIDER, missingProviderEnv } from "./providers";
+import { readRateLimit, TokenBucket } from "./rateLimit";
+
+// 每次 alarm 处理 BATCHES_PER_STEP 个窗口，每个窗口 BATCH_SIZE 条，前后各带 CONTEXT_SIZE 条上下文
+const BATCH_SIZE = 20;
+const BATCHES_PER_STEP = 3;
+const CONTEXT_SIZE = 3;
+
+/** 翻译一轮 pending 条目并更新 job，返回本轮处理的条数。 */
+export async function advanceTranslateJob(env: CloudflareEnv, job: TranslateJob): Promise<number> {
+  const providers = job.providers ?? [DEFAULT_PROVIDER];
+  const { capacity, perMinute } = readRateLimit(env);
+  const limiter = new TokenBucket(capacity, perMinute, job.rateLimit);
+  const complete = createCompleter(env, providers, limiter);
+  if (!complete) throw new Error(`翻译供应商未配置（${missingProviderEnv(providers)}）`);
+
+  const pending = job.entries.map((e) => entryStatus(e) === "pending");
+  const windows = buildPendingWindows(pending, BATCH_SIZE).slice(0, BATCHES_PER_STEP);
+  const cues = job.entries.map((e) => e.cue);
+  const options = { targetLanguage: job.targetLanguage, note: job.note, glossary: job.glossary };
+  let progressed = 0;
+  await Promise.all(
+    windows.map(async (window) => {
+      const { results } = await translateWindow(cues, window, options, complete, CONTEXT_SIZE);
+      results.forEach((result, i) => {
+        const entry = job.entries[window.start + i];
+        entry.attempts = (entry.attempts ?? 0) + 1;
+        entry.dst = result.text;
+        entry.error = result.error;
+        entry.status = result.error !== undefined ? "failed" : result.fallback ? "fallback" : "ok";
+      });
+      progressed += results.length;
+    })
+  );
+  const nextPending = job.entries.findIndex((e) => entryStatus(e) === "pending");
+  job.cursor = nextPending < 0 ? job.entries.length : nextPending;
+  job.completed = nextPending < 0;
+  job.rateLimit = limiter.snapshot();
+  return progressed;
+}
+
+/**
+ * 每个翻译任务对应一个实例（idFromName(jobId)），是该任务 R2 JSON 的唯一写入方。
+ * 用 alarm 逐轮推进，不依赖浏览器轮询；所有读改写都经过 exclusive 串行执行。
+ */
+export class TranslateJobRunner extends DurableObject<CloudflareEnv> {
+  private chain: Promise<unknown> = Promise.resolve();
+
+  // alarm 与 RPC 在等待 R2 / LLM 时会交错执行，这里手动排队
+  private exclusive<T>(run: () => Promise<T>): Promise<T> {
+    const next = this.chain.then(run, run);
+    this.chain = next.catch(() => {});
+    return next;
+  }
+
+  async start(jobId: string): Promise<void> {
+    await this.ctx.storage.put("jobId", jobId);
+    await this.ctx.storage.setAlarm(Date.now());
+  }
+
+  async retryFailed(jobId: string): Promise<{ requeued: number; completed: boolean } | null> {
+    return this.exclusive(async () => {
+      const job = await getTranslateJob(this.env.AUDIO_BUCKET, jobId);
+      if (!job) return null;
+      const requeued = requeueFailed(job);
+      if (requeued > 0) {
+        await putTranslateJob(this.env.AUDIO_BUCKET, jobId, job);
+        await this.start(jobId);
+      }
+      return { requeued, completed: job.completed };
+    });
+  }
+
+  /** 删除任务文件并停止推进；在 exclusive 内执行，进行中的一轮结束后不会再写回。 */
+  async cancel(jobId: string): Promise<void> {
+    await this.exclusive(async () => {
+      await deleteTranslateJob(this.env.AUDIO_BUCKET, jobId);
+      await this.ctx.storage.deleteAlarm();
+      await this.ctx.storage.deleteAll();
+    });
+  }
+
+  async alarm(): Promise<void> {
+    const jobId = await this.ctx.storage.get<string>("jobId");
+    if (!jobId) return;
+    await this.exclusive(async () => {
+      const job = await getTranslateJob(this.env.AUDIO_BUCKET, jobId);
+      if (!job || job.completed) return;
+      try {
+        const progressed = await advanceTranslateJob(this.env, job);
+        console.log(`[translate] Job ${jobId} progressed ${progressed}, cursor ${job.cursor}/${job.total}`);
+      } catch (e) {
+        job.error = e instanceof Error ? e.message : String(e);
+        job.completed = true;
+      }
+      await putTranslateJob(this.env.AUDIO_BUCKET, jobId, job);
+      if (!job.completed) await this.ctx.storage.setAlarm(Date.now());
+    });
+  }
+}
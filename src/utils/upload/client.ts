@@ -0,0 +1,251 @@
+import { MAX_DIRECT_UPLOAD_SIZE, type UploadedPart } from "./multipart";
+
+/** 浏览器端保存的分片上传进度，刷新页面后据此续传。 */
+type StoredUpload = {
+  key: string;
+  uploadId: string;
+  partSize: number;
+  /** 分片上传的访问令牌，绑定当前会话。 */
+  token: string;
+  /** 分片是否经预签名 URL 直传 R2；未配置 S3 凭证时退回经 Worker 中转。 */
+  direct: boolean;
+  parts: UploadedPart[];
+  createdAt: number;
+};
+
+export type UploadProgress = { loaded: number; total: number };
+
+/** 上传确认后得到的对象 key 与访问令牌，后续提交 ASR、删除音频都要带上令牌。 */
+export type UploadedAudio = { key: string; token: string };
+
+export type UploadOptions = {
+  onProgress?: (progress: UploadProgress) => void;
+  onLog?: (message: string) => void;
+  signal?: AbortSignal;
+};
+
+const STORAGE_PREFIX = "madoka-upload:";
+// R2 会在 7 天后清理未完成的分片上传，提前一天放弃续传
+const RESUME_TTL_MS = 6 * 24 * 60 * 60 * 1000;
+const PART_RETRIES = 4;
+
+class UploadSessionGoneError extends Error {}
+
+/** 服务端未配置 R2 S3 凭证时，预签名接口返回 501。 */
+class DirectUploadUnavailableError extends Error {}
+
+/** 用文件大小与开头 1 MB 的摘要识别同一份文件；每次提取的音频 Blob 都是新对象，不能靠引用判断。 */
+async function fingerprint(blob: Blob, name: string): Promise<string> {
+  const head = await blob.slice(0, 1024 * 1024).arrayBuffer();
+  const digest = new Uint8Array(await crypto.subtle.digest("SHA-256", head));
+  const hex = Array.from(digest.slice(0, 12), (b) => b.toString(16).padStart(2, "0")).join("");
+  return `${STORAGE_PREFIX}${name}:${blob.size}:${hex}`;
+}
+
+function loadStored(storageKey: string): StoredUpload | null {
+  try {
+    const raw = localStorage.getItem(storageKey);
+    if (!raw) return null;
+    const stored = JSON.parse(raw) as Partial<StoredUpload>;
+    // 旧版本记录没有令牌，无法续传
+    return stored.token && Date.now() - (stored.createdAt ?? 0) < RESUME_TTL_MS ? (stored as StoredUpload) : null;
+  } catch {
+    return null;
+  }
+}
+
+function saveStored(storageKey: string, stored: StoredUpload | null) {
+  try {
+    if (stored) localStorage.setItem(storageKey, JSON.stringify(stored));
+    else localStorage.removeItem(storageKey);
+  } catch {
+    // 隐私模式等场景下无法持久化，只是不能续传
+  }
+}
+
+async function readError(response: Response): Promise<string> {
+  const text = await response.text().catch(() => "");
+  try {
+    const data = JSON.parse(text) as { error?: string; detail?: string };
+    return [data.error, data.detail].filter(Boolean).join(": ") || text;
+  } catch {
+    return text || String(response.status);
+  }
+}
+
+async function createUpload(blob: Blob, name: string, signal?: AbortSignal): Promise<StoredUpload> {
+  const response = await fetch("/api/upload/multipart", {
+    method: "POST",
+    headers: { "content-type": "application/json" },
+    body: JSON.stringify({ fileName: name, contentType: blob.type, size: blob.size }),
+    signal,
+  });
+  if (!response.ok) throw new Error(`创建分片上传失败: ${await readError(response)}`);
+  const data = (await response.json()) as { key: string; uploadId: string; partSize: number; token: string };
+  return { ...data, direct: true, parts: [], createdAt: Date.now() };
+}
+
+/** 上传会话失效、或令牌与当前会话不符（如 cookie 被清除）时都只能重新开始。 */
+function isSessionGone(response: Response): boolean {
+  return response.status === 404 || response.status === 401 || response.status === 403;
+}
+
+async function presignPart(stored: StoredUpload, partNumber: number, signal?: AbortSignal): Promise<string> {
+  const response = await fetch(`/api/upload/multipart/${encodeURIComponent(stored.uploadId)}/presign`, {
+    method: "POST",
+    headers: { "content-type": "application/json", "x-access-token": stored.token },
+    body: JSON.stringify({ key: stored.key, partNumber }),
+    signal,
+  });
+  if (response.status === 501) throw new DirectUploadUnavailableError(await readError(response));
+  if (isSessionGone(response)) throw new UploadSessionGoneError(await readError(response));
+  if (!response.ok) throw new Error(`获取分片直传地址失败: ${await readError(response)}`);
+  return ((await response.json()) as { url: string }).url;
+}
+
+async function putPart(stored: StoredUpload, partNumber: number, chunk: Blob, signal?: AbortSignal): Promise<UploadedPart> {
+  if (stored.direct) {
+    const response = await fetch(await presignPart(stored, partNumber, signal), { method: "PUT", body: chunk, signal });
+    // R2 的 S3 接口对已失效的 uploadId 返回 404 NoSuchUpload
+    if (response.status === 404) throw new UploadSessionGoneError(await readError(response));
+    if (!response.ok) throw new Error(`R2 返回 ${response.status}: ${await readError(response)}`);
+    const etag = response.headers.get("etag");
+    if (!etag) throw new Error("R2 未返回 ETag，请检查 bucket 的 CORS 是否暴露 ETag");
+    return { partNumber, etag: etag.replace(/"/g, "") };
+  }
+  const url = `/api/upload/multipart/${encodeURIComponent(stored.uploadId)}/parts/${partNumber}?key=${encodeURIComponent(stored.key)}`;
+  const response = await fetch(url, { method: "PUT", headers: { "x-access-token": stored.token }, body: chunk, signal });
+  if (isSessionGone(response)) throw new UploadSessionGoneError(await readError(response));
+  if (!response.ok) throw new Error(await readError(response));
+  return (await response.json()) as UploadedPart;
+}
+
+async function uploadPart(stored: StoredUpload, partNumber: number, chunk: Blob, options: UploadOptions): Promise<UploadedPart> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await putPart(stored, partNumber, chunk, options.signal);
+    } catch (error) {
+      if (error instanceof DirectUploadUnavailableError) {
+        // 同一个分片上传会话也能经 Worker 写入，切换后继续
+        options.onLog?.("服务端未开启直传，改为经 Worker 上传分片");
+        stored.direct = false;
+        attempt--;
+        continue;
+      }
+      if (error instanceof UploadSessionGoneError || options.signal?.aborted || attempt >= PART_RETRIES) throw error;
+      options.onLog?.(`分片 ${partNumber} 上传失败（${attempt}/${PART_RETRIES}），稍后重试: ${(error as Error).message}`);
+      await new Promise((r) => setTimeout(r, 1000 * 2 ** (attempt - 1)));
+    }
+  }
+}
+
+async function uploadParts(blob: Blob, stored: StoredUpload, storageKey: string, options: UploadOptions): Promise<string> {
+  const total = Math.ceil(blob.size / stored.partSize);
+  const done = new Set(stored.parts.map((p) => p.partNumber));
+  const uploadedBytes = () => stored.parts.reduce((sum, p) => sum + Math.min(stored.partSize, blob.size - (p.partNumber - 1) * stored.partSize), 0);
+  options.onProgress?.({ loaded: uploadedBytes(), total: blob.size });
+
+  for (let partNumber = 1; partNumber <= total; partNumber++) {
+    if (done.has(partNumber)) continue;
+    const start = (partNumber - 1) * stored.partSize;
+    const part = await uploadPart(stored, partNumber, blob.slice(start, start + stored.partSize), options);
+    stored.parts.push(part);
+    saveStored(storageKey, stored);
+    options.onProgress?.({ loaded: uploadedBytes(), total: blob.size });
+  }
+
+  const response = await fetch(`/api/upload/multipart/${encodeURIComponent(stored.uploadId)}/complete`, {
+    method: "POST",
+    headers: { "content-type": "application/json", "x-access-token": stored.token },
+    body: JSON.stringify({ key: stored.key, parts: stored.parts }),
+    signal: options.signal,
+  });
+  if (isSessionGone(response)) throw new UploadSessionGoneError(await readError(response));
+  if (!response.ok) throw new Error(`合并分片失败: ${await readError(response)}`);
+  saveStored(storageKey, null);
+  return ((await response.json()) as { key: string }).key;
+}
+
+/**
+ * 分片上传到 R2：逐片上传、单片失败重试，已完成的分片记录在 localStorage，
+ * 同一份文件再次上传时从断点继续。返回对象 key。
+ */
+async function uploadMultipart(blob: Blob, name: string, options: UploadOptions = {}): Promise<string> {
+  const storageKey = await fingerprint(blob, name);
+  const resumed = loadStored(storageKey);
+  if (resumed) {
+    options.onLog?.(`检测到未完成的上传，从第 ${resumed.parts.length + 1} 个分片继续`);
+    try {
+      return await uploadParts(blob, resumed, storageKey, options);
+    } catch (error) {
+      if (!(error instanceof UploadSessionGoneError)) throw error;
+      options.onLog?.("之前的上传会话已失效，重新开始上传");
+      saveStored(storageKey, null);
+    }
+  }
+  const stored = await createUpload(blob, name, options.signal);
+  saveStored(storageKey, stored);
+  return uploadParts(blob, stored, storageKey, options);
+}
+
+/** 用 XHR 上传以获得进度事件，fetch 目前拿不到请求体的上传进度。 */
+function putWithProgress(url: string, blob: Blob, headers: Record<string, string>, options: UploadOptions): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open("PUT", url);
+    for (const [name, value] of Object.entries(headers)) xhr.setRequestHeader(name, value);
+    xhr.upload.onprogress = (e) => options.onProgress?.({ loaded: e.loaded, total: blob.size });
+    xhr.onload = () => (xhr.status >= 200 && xhr.status < 300 ? resolve() : reject(new Error(`R2 返回 ${xhr.status}: ${xhr.responseText}`)));
+    xhr.onerror = () => reject(new Error("直传 R2 失败，请检查 bucket 的 CORS 配置"));
+    xhr.onabort = () => reject(new DOMException("上传已取消", "AbortError"));
+    options.signal?.addEventListener("abort", () => xhr.abort(), { once: true });
+    xhr.send(blob);
+  });
+}
+
+/** 单次 PUT 直传 R2，返回对象 key；服务端未配置 S3 凭证时抛出 DirectUploadUnavailableError。 */
+async function uploadDirect(blob: Blob, name: string, options: UploadOptions): Promise<string> {
+  const response = await fetch("/api/upload/presign", {
+    method: "POST",
+    headers: { "content-type": "application/json" },
+    body: JSON.stringify({ fileName: name, contentType: blob.type, size: blob.size }),
+    signal: options.signal,
+  });
+  if (response.status === 501) throw new DirectUploadUnavailableError(await readError(response));
+  if (!response.ok) throw new Error(`获取直传地址失败: ${await readError(response)}`);
+  const { key, url, headers } = (await response.json()) as { key: string; url: string; headers: Record<string, string> };
+  options.onProgress?.({ loaded: 0, total: blob.size });
+  await putWithProgress(url, blob, headers, options);
+  return key;
+}
+
+async function confirmUpload(key: string, signal?: AbortSignal): Promise<UploadedAudio> {
+  const response = await fetch("/api/upload/confirm", {
+    method: "POST",
+    headers: { "content-type": "application/json" },
+    body: JSON.stringify({ key }),
+    signal,
+  });
+  if (!response.ok) throw new Error(`上传校验失败: ${await readError(response)}`);
+  const { token } = (await response.json()) as { token: string };
+  return { key, token };
+}
+
+/**
+ * 上传音频到 R2 并校验，返回对象 key 与访问令牌。
+ * 小文件用预签名 URL 单次直传；大文件走可续传的分片上传，分片同样优先直传。
+ * 服务端未配置 S3 凭证时退回经 Worker 中转。
+ */
+export async function uploadAudio(blob: Blob, name: string, options: UploadOptions = {}): Promise<UploadedAudio> {
+  let key: string | null = null;
+  if (blob.size <= MAX_DIRECT_UPLOAD_SIZE) {
+    try {
+      key = await uploadDirect(blob, name, options);
+    } catch (error) {
+      if (!(error instanceof DirectUploadUnavailableError)) throw error;
+      options.onLog?.("服务端未开启直传，改为经 Worker 分片上传");
+    }
+  }
+  key ??= await uploadMultipart(blob, name, options);
+  return confirmUpload(key, options.signal);
+}
@@ -0,0 +1,2 @@
+export * from "./multipart";
+export * from "./presign";
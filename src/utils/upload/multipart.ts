@@ -0,0 +1,34 @@
+/** 单次请求直传的上限：Worker 请求体最多 100 MB，更大的文件走分片上传。 */
+export const MAX_DIRECT_UPLOAD_SIZE = 100 * 1024 * 1024;
+
+export const MAX_UPLOAD_SIZE = 2 * 1024 * 1024 * 1024; // 2GB
+
+/** R2 要求除最后一片外每片至少 5 MiB。 */
+export const UPLOAD_PART_SIZE = 8 * 1024 * 1024;
+
+export const MAX_UPLOAD_PARTS = 10000;
+
+export type UploadedPart = { partNumber: number; etag: string };
+
+/** 上传得到的对象 key 形如 `<uuid>.<ext>`，用于拒绝续传任意路径。 */
+const UPLOAD_KEY_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\.[A-Za-z0-9]{1,10}$/;
+
+export function isUploadKey(key: unknown): key is string {
+  return typeof key === "string" && UPLOAD_KEY_RE.test(key);
+}
+
+export function createUploadKey(fileName: string): string {
+  const extension = /\.([A-Za-z0-9]{1,10})$/.exec(fileName)?.[1] ?? "bin";
+  return `${crypto.randomUUID()}.${extension}`;
+}
+
+export function isUploadedPart(value: unknown): value is UploadedPart {
+  const part = value as UploadedPart;
+  return Boolean(part) && Number.isInteger(part.partNumber) && part.partNumber >= 1 && typeof part.etag === "string";
+}
+
+/** R2 找不到对应分片上传（已完成、已取消或过期）时的错误。 */
+export function isMissingUploadError(error: unknown): boolean {
+  const message = error instanceof Error ? error.message : String(error);
+  return /does not exist|NoSuchUpload|10024/i.test(message);
+}
@@ -0,0 +1,42 @@
+/** 浏览器直传 URL 的有效期，够传完一个分片即可。 */
+export const PRESIGN_EXPIRES_SEC = 600;
+
+/** 直传时签入 URL 的自定义元数据，确认阶段据此校验实际大小。 */
+export const EXPECTED_SIZE_HEADER = "x-amz-meta-expected-size";
+export const EXPECTED_SIZE_META = "expected-size";
+
+const ALLOWED_UPLOAD_TYPE_RE = /^(audio|video)\/[\w.+-]+$/i;
+
+export function isAllowedUploadType(contentType: unknown): contentType is string {
+  return typeof contentType === "string" && ALLOWED_UPLOAD_TYPE_RE.test(contentType);
+}
+
+export function isR2S3Configured(env: CloudflareEnv): boolean {
+  return Boolean(env.R2_S3_ACCOUNT_ID && env.R2_S3_BUCKET && env.R2_S3_ACCESS_KEY_ID && env.R2_S3_SECRET_ACCESS_KEY);
+}
+
+export type PresignOptions = {
+  method: "GET" | "PUT";
+  expiresSec?: number;
+  /** 需要一并签名的请求头，浏览器上传时必须原样带上。 */
+  headers?: Record<string, string>;
+  query?: Record<string, string>;
+};
+
+/**
+ * 用 R2 的 S3 兼容接口生成预签名 URL。
+ * 浏览器直传要求 bucket 的 CORS 允许 PUT 与 content-type / x-amz-meta-* 请求头，并暴露 ETag。
+ */
+export async function presignR2Url(env: CloudflareEnv, key: string, options: PresignOptions): Promise<string> {
+  const { R2_S3_ACCOUNT_ID: accountId, R2_S3_BUCKET: bucket, R2_S3_ACCESS_KEY_ID: accessKeyId, R2_S3_SECRET_ACCESS_KEY: secretAccessKey } = env;
+  if (!accountId || !bucket || !accessKeyId || !secretAccessKey) {
+    throw new Error("请设置 R2_S3_ACCOUNT_ID / R2_S3_BUCKET / R2_S3_ACCESS_KEY_ID / R2_S3_SECRET_ACCESS_KEY");
+  }
+  const { AwsClient } = await import("aws4fetch");
+  const client = new AwsClient({ accessKeyId, secretAccessKey, service: "s3", region: "auto" });
+  const url = new URL(`https://${bucket}.${accountId}.r2.cloudflarestorage.com/${encodeURIComponent(key)}`);
+  for (const [name, value] of Object.entries(options.query ?? {})) url.searchParams.set(name, value);
+  url.searchParams.set("X-Amz-Expires", String(options.expiresSec ?? PRESIGN_EXPIRES_SEC));
+  const signed = await client.sign(new Request(url, { method: options.method, headers: options.headers }), { aws: { signQuery: true } });
+  return signed.url;
+}
@@ -0,0 +1,81 @@
+export type VideoExportMode = 'soft' | 'burn';
+
+export type VideoContainer = 'mkv' | 'mp4';
+
+export type SubtitleTrackInput = {
+  /** FFmpeg 虚拟文件系统中的字幕文件名，扩展名决定格式。 */
+  fileName: string;
+  /** BCP 47 语言代码，如 zh-CN；未知时传 und。 */
+  language: string;
+  title: string;
+};
+
+// MKV / MP4 的语言标签使用 ISO 639-2
+const ISO_639_2: Record<string, string> = {
+  zh: 'chi',
+  en: 'eng',
+  ja: 'jpn',
+  ko: 'kor',
+  fr: 'fre',
+  es: 'spa',
+  pt: 'por',
+  de: 'ger',
+  id: 'ind',
+  ms: 'may',
+  th: 'tha',
+  ar: 'ara',
+  fil: 'fil',
+};
+
+export const toContainerLanguage = (language: string) => ISO_639_2[language.split('-')[0].toLowerCase()] ?? 'und';
+
+/** 软字幕封装：视频、音频直接复制，只追加字幕轨。MP4 只支持 mov_text，MKV 保留 ASS 样式。 */
+export const buildSoftMuxArgs = (input: string, tracks: SubtitleTrackInput[], container: VideoContainer, output: string) => {
+  const args = ['-i', input];
+  tracks.forEach((track) => args.push('-i', track.fileName));
+  args.push('-map', '0:v', '-map', '0:a?');
+  tracks.forEach((_, i) => args.push('-map', `${i + 1}:0`));
+  args.push('-c', 'copy', '-c:s', container === 'mp4' ? 'mov_text' : 'copy');
+  tracks.forEach((track, i) => {
+    args.push(
+      `-metadata:s:s:${i}`,
+      `language=${toContainerLanguage(track.language)}`,
+      `-metadata:s:s:${i}`,
+      `title=${track.title}`,
+      `-disposition:s:${i}`,
+      i === 0 ? 'default' : '0'
+    );
+  });
+  args.push(output);
+  return args;
+};
+
+/** 硬字幕压制：用 ass 滤镜按样式渲染后重新编码视频；libass 只能使用 fontsDir 里的字体。 */
+export const buildBurnInArgs = (input: string, assFile: string, fontsDir: string, container: VideoContainer, output: string) => [
+  '-i',
+  input,
+  '-vf',
+  `ass=${assFile}:fontsdir=${fontsDir}`,
+  '-c:v',
+  'libx264',
+  '-preset',
+  'ultrafast',
+  '-crf',
+  '23',
+  // MP4 不一定能容纳原音频编码，统一转 AAC
+  ...(container === 'mp4' ? ['-c:a', 'aac', '-b:a', '192k'] : ['-c:a', 'copy']),
+  output,
+];
+
+/** 从 FFmpeg 日志里的 `time=HH:MM:SS.xx` 估算进度（0–1），无法解析时返回 null。 */
+export const parseFfmpegProgress = (message: string, durationSec?: number) => {
+  const match = message.match(/time=(\d+):(\d{2}):(\d{2}(?:\.\d+)?)/);
+  if (!match || !durationSec) return null;
+  const seconds = Number(match[1]) * 3600 + Number(match[2]) * 60 + Number(match[3]);
+  return Math.min(1, Math.max(0, seconds / durationSec));
+};
+
+export const VIDEO_MIME_TYPES: Record<VideoContainer, string> = {
+  mkv: 'video/x-matroska',
+  mp4: 'video/mp4',
+};
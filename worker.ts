@@ -0,0 +1,19 @@
+// 自定义 Worker 入口：复用 OpenNext 生成的 fetch 处理，并导出翻译任务用到的 Durable Object。
+// `npm run preview`（wrangler dev / Miniflare）会在本地一起跑起来。
+// `.open-next/worker.js` 的类型见 open-next.d.ts
+import { default as handler } from "./.open-next/worker.js";
+import { sweepExpired } from "./src/utils/retention";
+
+export { TranslateJobRunner } from "./src/utils/translation/runner";
+
+export default {
+  fetch: handler.fetch,
+  // wrangler.jsonc 的 triggers.crons 定时清理过期的音频与任务文件
+  async scheduled(_controller, env, ctx) {
+    ctx.waitUntil(
+      sweepExpired(env.AUDIO_BUCKET).then(({ scanned, deleted }) => {
+        console.log(`[retention] scanned ${scanned}, deleted ${deleted}`);
+      })
+    );
+  },
+} satisfies ExportedHandler<CloudflareEnv>;